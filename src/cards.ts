@@ -0,0 +1,150 @@
+import sharp from "sharp";
+import { ImageBuffer } from "./lib/images";
+import { NotificationEvent, formatPrice } from "./notifications";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 675;
+// the art is a square on the left, the text goes to the right of it
+const ART_SIZE = CARD_HEIGHT;
+const TEXT_X = ART_SIZE + 48;
+const TEXT_WIDTH = CARD_WIDTH - TEXT_X - 48;
+
+const BACKGROUND = "#111318";
+const FONT = "DejaVu Sans, Helvetica, Arial, sans-serif";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Shortens text to about what fits the given width, SVG can't measure it for
+ * us. Average glyph width is a bit over half the font size.
+ */
+function fit(text: string, fontSize: number, width = TEXT_WIDTH): string {
+  const maxChars = Math.floor(width / (fontSize * 0.58));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+}
+
+function toHexColor(color: number): string {
+  return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+function text(
+  content: string,
+  y: number,
+  fontSize: number,
+  options: { fill?: string; weight?: string; x?: number } = {}
+): string {
+  const attributes = [
+    `x="${options.x ?? TEXT_X}"`,
+    `y="${y}"`,
+    `font-family="${FONT}"`,
+    `font-size="${fontSize}"`,
+    `font-weight="${options.weight ?? "normal"}"`,
+    `fill="${options.fill ?? "#ffffff"}"`,
+  ];
+
+  return `<text ${attributes.join(" ")}>${escapeXml(content)}</text>`;
+}
+
+function createOverlay(event: NotificationEvent): string {
+  const { display, rarity, traitValue } = event;
+  const price = formatPrice(event);
+  const priceSize = price.length > 12 ? 48 : 72;
+
+  const tierColor = toHexColor(rarity.color);
+  const badgeWidth = Math.min(TEXT_WIDTH, 40 + rarity.tier.length * 20);
+
+  const lines = [
+    text(fit(display.collectionName.toUpperCase(), 26), 96, 26, {
+      fill: "#8b93a7",
+      weight: "bold",
+    }),
+    text(fit(event.transaction.mint.name, 48), 160, 48, { weight: "bold" }),
+    text(fit(price, priceSize), 280, priceSize, { weight: "bold" }),
+  ];
+
+  if (display.showUsd && event.formattedFiatPrice) {
+    lines.push(
+      text(fit(event.formattedFiatPrice, 32), 336, 32, { fill: "#8b93a7" })
+    );
+  }
+
+  lines.push(
+    `<rect x="${TEXT_X}" y="392" width="${badgeWidth}" height="56" rx="28" fill="${tierColor}"/>`,
+    text(rarity.tier, 430, 30, { x: TEXT_X + 20, weight: "bold" })
+  );
+
+  if (rarity.rank != null) {
+    lines.push(
+      text(`Rank #${rarity.rank}`, 430, 30, {
+        x: TEXT_X + badgeWidth + 24,
+        fill: "#c9cfdb",
+      })
+    );
+  }
+
+  if (traitValue) {
+    lines.push(
+      text(fit(`${display.traitName}: ${traitValue}`, 30), 516, 30, {
+        fill: "#c9cfdb",
+      })
+    );
+  }
+
+  lines.push(
+    text("tensor.trade", 620, 24, { fill: "#5c6478" }),
+    `<rect x="${ART_SIZE}" y="0" width="8" height="${CARD_HEIGHT}" fill="${tierColor}"/>`
+  );
+
+  return `<svg width="${CARD_WIDTH}" height="${CARD_HEIGHT}" xmlns="http://www.w3.org/2000/svg">${lines.join(
+    ""
+  )}</svg>`;
+}
+
+/**
+ * A branded image for a sale: the NFT art with the price, fiat value, rarity
+ * tier, rank and trait next to it. Renders without the art when it couldn't
+ * be downloaded.
+ */
+export async function renderSaleCard(
+  event: NotificationEvent,
+  art: ImageBuffer | null
+): Promise<ImageBuffer> {
+  const layers: sharp.OverlayOptions[] = [];
+
+  if (art) {
+    layers.push({
+      input: await sharp(art.buffer)
+        .resize(ART_SIZE, ART_SIZE, { fit: "cover" })
+        .png()
+        .toBuffer(),
+      left: 0,
+      top: 0,
+    });
+  }
+
+  layers.push({ input: Buffer.from(createOverlay(event)), left: 0, top: 0 });
+
+  const buffer = await sharp({
+    create: {
+      width: CARD_WIDTH,
+      height: CARD_HEIGHT,
+      channels: 3,
+      background: BACKGROUND,
+    },
+  })
+    .composite(layers)
+    .png()
+    .toBuffer();
+
+  return {
+    buffer,
+    fileType: { ext: "png", mime: "image/png" },
+    card: true,
+  };
+}
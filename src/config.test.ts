@@ -0,0 +1,17 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "url";
+import { loadConfigFile } from "./config";
+
+const EXAMPLE_PATH = fileURLToPath(
+  new URL("../config.example.json", import.meta.url)
+);
+
+test("config.example.json loads", () => {
+  const { collections } = loadConfigFile(EXAMPLE_PATH);
+
+  assert.equal(collections.length, 1);
+  assert.equal(collections[0].slug, "05c52d84-2e49-4ed9-a473-b43cab41e777");
+  assert.equal(collections[0].discordWebhooks.length, 1);
+  assert.notEqual(collections[0].twitter, null);
+});
@@ -0,0 +1,1122 @@
+import { readFileSync } from "fs";
+import { EnvMissingError, cleanEnv, str } from "envalid";
+import { nonEmptyStrValidator } from "./utils";
+import {
+  NOTIFICATION_KINDS,
+  NotificationKind,
+  isTemplateVariable,
+} from "./notifications";
+import {
+  TemplateError,
+  getTemplateNames,
+  parseTemplate,
+} from "./lib/templates";
+import {
+  DEFAULT_RARITY_CONFIG,
+  RANK_SOURCES,
+  RarityConfig,
+  RarityTierConfig,
+} from "./lib/rarity";
+import { TokenInfo } from "./lib/prices";
+
+export interface TwitterCredentials {
+  apiKey: string;
+  apiSecret: string;
+  accessToken: string;
+  accessTokenSecret: string;
+}
+
+// message template per kind, kinds without one use the built-in layout
+export type TextTemplates = { [kind in NotificationKind]?: string };
+
+export interface DiscordEmbedTemplate {
+  title?: string;
+  description?: string;
+  // fields that render empty are left out
+  fields?: { name: string; value: string; inline: boolean }[];
+}
+
+export type DiscordTemplates = {
+  [kind in NotificationKind]?: DiscordEmbedTemplate;
+};
+
+export interface TemplateConfig {
+  discord: DiscordTemplates;
+  twitter: TextTemplates;
+  telegram: TextTemplates;
+  slack: TextTemplates;
+}
+
+/**
+ * Conditions a transaction has to meet to be posted to a sink, all of the
+ * set ones must hold. Null means no limit.
+ */
+export interface SaleFilter {
+  minSol: number | null;
+  maxSol: number | null;
+  minUsd: number | null;
+  // index of the least rare tier that passes, see Rarity.tierIndex
+  maxTierIndex: number | null;
+  // trait type -> accepted values
+  traits: { [traitType: string]: string[] };
+}
+
+export interface TwitterTarget extends TwitterCredentials {
+  // overrides the collection's twitter templates for this account
+  templates: TextTemplates;
+  // a transaction is posted when it matches any of these, or always if empty
+  filters: SaleFilter[];
+}
+
+export interface DiscordTarget {
+  url: string;
+  templates: DiscordTemplates;
+  filters: SaleFilter[];
+}
+
+export interface SlackTarget {
+  url: string;
+  templates: TextTemplates;
+  filters: SaleFilter[];
+}
+
+export interface TelegramTarget {
+  botToken: string;
+  chatId: string;
+  templates: TextTemplates;
+  filters: SaleFilter[];
+}
+
+export interface SignedWebhookTarget {
+  url: string;
+  // shared secret used to HMAC-sign the body
+  secret: string;
+  filters: SaleFilter[];
+}
+
+export interface FloorAlertConfig {
+  // alert when the floor moves this many percent within the window, 0 = off
+  percent: number;
+  windowMinutes: number;
+  // alert when the floor crosses any of these prices in SOL
+  thresholds: number[];
+  // minimum time between two alerts of the same kind
+  cooldownMinutes: number;
+  pollSeconds: number;
+}
+
+export const WEEKDAYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export interface DigestConfig {
+  // "HH:MM" in UTC, null to skip that digest
+  dailyAt: string | null;
+  weeklyAt: string | null;
+  weeklyOn: (typeof WEEKDAYS)[number];
+  // number of top sales listed
+  topSales: number;
+}
+
+export interface DisplayOptions {
+  // shown in collection wide posts like floor alerts, defaults to the slug
+  collectionName: string;
+  // attribute shown next to the rarity, e.g. "Faction"
+  traitName: string;
+  showFloor: boolean;
+  // shows the fiat price, named after the only currency it used to support
+  showUsd: boolean;
+  // lowercase ISO codes of the fiat currencies prices are shown in
+  currencies: string[];
+  // attach a rendered sale card instead of the plain NFT art to sales
+  saleCards: boolean;
+}
+
+export interface CollectionConfig {
+  slug: string;
+  discordWebhooks: DiscordTarget[];
+  twitter: TwitterTarget | null;
+  telegram: TelegramTarget[];
+  slackWebhooks: SlackTarget[];
+  webhooks: SignedWebhookTarget[];
+  // kinds of transactions to announce, only sales by default
+  events: NotificationKind[];
+  // optional allowlist of raw tx types within the enabled events
+  txTypes: string[] | null;
+  // sales by one buyer within this window are posted as a single sweep
+  sweepWindowSeconds: number;
+  display: DisplayOptions;
+  templates: TemplateConfig;
+  rarity: RarityConfig;
+  floorAlerts: FloorAlertConfig | null;
+  digests: DigestConfig | null;
+}
+
+export interface WalletEntry {
+  // shown instead of the truncated address
+  label: string | null;
+  // post a dedicated alert whenever this wallet buys or sells
+  watch: boolean;
+}
+
+export type WalletRegistry = { [address: string]: WalletEntry };
+
+export interface AppConfig {
+  collections: CollectionConfig[];
+  wallets: WalletRegistry;
+  // SPL tokens sales may be paid in, on top of the built-in ones
+  tokens: TokenInfo[];
+}
+
+export class ConfigError extends Error {
+  constructor(source: string, public issues: string[]) {
+    super(
+      `Invalid configuration in ${source}:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Collects validation issues with the path they were found at, so that every
+ * problem in a config file is reported at once instead of one per restart.
+ */
+class ConfigReader {
+  public issues: string[] = [];
+
+  public fail(path: string, message: string): void {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  public object(value: unknown, path: string): Record<string, unknown> | null {
+    if (value == null || typeof value !== "object" || Array.isArray(value)) {
+      this.fail(path, "expected an object");
+      return null;
+    }
+
+    return value as Record<string, unknown>;
+  }
+
+  public string(value: unknown, path: string): string {
+    if (typeof value !== "string" || value === "") {
+      this.fail(path, "expected a non-empty string");
+      return "";
+    }
+
+    return value;
+  }
+
+  public boolean(value: unknown, path: string, fallback: boolean): boolean {
+    if (value == null) {
+      return fallback;
+    }
+
+    if (typeof value !== "boolean") {
+      this.fail(path, "expected true or false");
+      return fallback;
+    }
+
+    return value;
+  }
+
+  public stringArray(
+    value: unknown,
+    path: string,
+    fallback?: string[]
+  ): string[] {
+    if (value == null && fallback) {
+      return fallback;
+    }
+
+    if (!Array.isArray(value)) {
+      this.fail(path, "expected an array of strings");
+      return fallback ?? [];
+    }
+
+    return value.map((item, index) => this.string(item, `${path}[${index}]`));
+  }
+
+  public oneOf<T extends string>(
+    value: unknown,
+    path: string,
+    allowed: readonly T[]
+  ): T {
+    if (!allowed.includes(value as T)) {
+      this.fail(path, `expected one of ${allowed.join(", ")}`);
+    }
+
+    return value as T;
+  }
+
+  public number(value: unknown, path: string, fallback: number): number {
+    if (value == null) {
+      return fallback;
+    }
+
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      this.fail(path, "expected a non-negative number");
+      return fallback;
+    }
+
+    return value;
+  }
+
+  public template(value: unknown, path: string): string {
+    const str = this.string(value, path);
+
+    try {
+      const unknown = getTemplateNames(parseTemplate(str)).filter(
+        (name) => !isTemplateVariable(name)
+      );
+
+      if (unknown.length > 0) {
+        this.fail(path, `unknown placeholder {${unknown[0]}}`);
+      }
+    } catch (err) {
+      if (!(err instanceof TemplateError)) {
+        throw err;
+      }
+      this.fail(path, err.message);
+    }
+
+    return str;
+  }
+
+  public numberArray(value: unknown, path: string): number[] {
+    if (value == null) {
+      return [];
+    }
+
+    if (!Array.isArray(value)) {
+      this.fail(path, "expected an array of numbers");
+      return [];
+    }
+
+    return value.map((item, index) =>
+      this.number(item, `${path}[${index}]`, 0)
+    );
+  }
+
+  public color(value: unknown, path: string, fallback: number): number {
+    if (value == null) {
+      return fallback;
+    }
+
+    if (typeof value === "number" && value >= 0 && value <= 0xffffff) {
+      return value;
+    }
+
+    if (typeof value === "string" && /^#[0-9a-fA-F]{6}$/.test(value)) {
+      return parseInt(value.slice(1), 16);
+    }
+
+    this.fail(path, 'expected a color like "#e67e22"');
+    return fallback;
+  }
+
+  public url(value: unknown, path: string): string {
+    const str = this.string(value, path);
+
+    if (str) {
+      try {
+        new URL(str);
+      } catch (err) {
+        this.fail(path, `"${str}" is not a valid URL`);
+      }
+    }
+
+    return str;
+  }
+}
+
+const TWITTER_CREDENTIAL_KEYS: (keyof TwitterCredentials)[] = [
+  "apiKey",
+  "apiSecret",
+  "accessToken",
+  "accessTokenSecret",
+];
+
+export function countSinks(collection: CollectionConfig): number {
+  return (
+    collection.discordWebhooks.length +
+    (collection.twitter ? 1 : 0) +
+    collection.telegram.length +
+    collection.slackWebhooks.length +
+    collection.webhooks.length
+  );
+}
+
+function readTwitter(
+  reader: ConfigReader,
+  value: unknown,
+  path: string,
+  tiers: RarityTierConfig[]
+): TwitterTarget | null {
+  if (value == null) {
+    return null;
+  }
+
+  const obj = reader.object(value, path);
+
+  if (!obj) {
+    return null;
+  }
+
+  // like unset environment variables, no credentials at all means no Twitter
+  if (
+    TWITTER_CREDENTIAL_KEYS.every(
+      (key) => obj[key] === undefined || obj[key] === ""
+    )
+  ) {
+    return null;
+  }
+
+  const missing = TWITTER_CREDENTIAL_KEYS.filter(
+    (key) => typeof obj[key] !== "string" || obj[key] === ""
+  );
+
+  if (missing.length > 0) {
+    reader.fail(
+      path,
+      `partial Twitter credentials, missing ${missing.join(
+        ", "
+      )} (all of ${TWITTER_CREDENTIAL_KEYS.join(", ")} are required)`
+    );
+    return null;
+  }
+
+  return {
+    apiKey: obj.apiKey as string,
+    apiSecret: obj.apiSecret as string,
+    accessToken: obj.accessToken as string,
+    accessTokenSecret: obj.accessTokenSecret as string,
+    templates: readTextTemplates(reader, obj.templates, `${path}.templates`),
+    filters: readFilters(reader, obj.filters, `${path}.filters`, tiers),
+  };
+}
+
+function readObjectArray<T>(
+  reader: ConfigReader,
+  value: unknown,
+  path: string,
+  readItem: (obj: Record<string, unknown>, path: string) => T
+): T[] {
+  if (value == null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    reader.fail(path, "expected an array");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    const obj = reader.object(item, `${path}[${index}]`);
+    return obj ? [readItem(obj, `${path}[${index}]`)] : [];
+  });
+}
+
+function readTextTemplates(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): TextTemplates {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+  const templates: TextTemplates = {};
+
+  for (const [kind, template] of Object.entries(obj)) {
+    reader.oneOf(kind, `${path}.${kind}`, NOTIFICATION_KINDS);
+    templates[kind as NotificationKind] = reader.template(
+      template,
+      `${path}.${kind}`
+    );
+  }
+
+  return templates;
+}
+
+function readDiscordTemplates(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): DiscordTemplates {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+  const templates: DiscordTemplates = {};
+
+  for (const [kind, embedValue] of Object.entries(obj)) {
+    const embedPath = `${path}.${kind}`;
+    const embed = reader.object(embedValue, embedPath);
+    reader.oneOf(kind, embedPath, NOTIFICATION_KINDS);
+
+    if (!embed) {
+      continue;
+    }
+
+    templates[kind as NotificationKind] = {
+      title:
+        embed.title == null
+          ? undefined
+          : reader.template(embed.title, `${embedPath}.title`),
+      description:
+        embed.description == null
+          ? undefined
+          : reader.template(embed.description, `${embedPath}.description`),
+      fields:
+        embed.fields == null
+          ? undefined
+          : readObjectArray(
+              reader,
+              embed.fields,
+              `${embedPath}.fields`,
+              (field, fieldPath) => ({
+                name: reader.template(field.name, `${fieldPath}.name`),
+                value: reader.template(field.value, `${fieldPath}.value`),
+                inline: reader.boolean(
+                  field.inline,
+                  `${fieldPath}.inline`,
+                  true
+                ),
+              })
+            ),
+    };
+  }
+
+  return templates;
+}
+
+function readTemplateConfig(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): TemplateConfig {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+
+  return {
+    discord: readDiscordTemplates(reader, obj.discord, `${path}.discord`),
+    twitter: readTextTemplates(reader, obj.twitter, `${path}.twitter`),
+    telegram: readTextTemplates(reader, obj.telegram, `${path}.telegram`),
+    slack: readTextTemplates(reader, obj.slack, `${path}.slack`),
+  };
+}
+
+/**
+ * Reads sinks that can be given as a plain url or as an object with a url
+ * and templates.
+ */
+function readUrlTargets<T>(
+  reader: ConfigReader,
+  value: unknown,
+  path: string,
+  readTemplates: (reader: ConfigReader, value: unknown, path: string) => T,
+  tiers: RarityTierConfig[]
+): { url: string; templates: T; filters: SaleFilter[] }[] {
+  if (value == null) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    reader.fail(path, "expected an array");
+    return [];
+  }
+
+  return value.map((item, index) => {
+    const itemPath = `${path}[${index}]`;
+
+    if (typeof item === "string") {
+      return {
+        url: reader.url(item, itemPath),
+        templates: readTemplates(reader, null, itemPath),
+        filters: [],
+      };
+    }
+
+    const obj = reader.object(item, itemPath) ?? {};
+
+    return {
+      url: reader.url(obj.url, `${itemPath}.url`),
+      templates: readTemplates(reader, obj.templates, `${itemPath}.templates`),
+      filters: readFilters(reader, obj.filters, `${itemPath}.filters`, tiers),
+    };
+  });
+}
+
+function readFilters(
+  reader: ConfigReader,
+  value: unknown,
+  path: string,
+  tiers: RarityTierConfig[]
+): SaleFilter[] {
+  const optionalNumber = (value: unknown, path: string) =>
+    value == null ? null : reader.number(value, path, 0);
+
+  return readObjectArray(reader, value, path, (obj, filterPath) => {
+    const traits: SaleFilter["traits"] = {};
+    const traitsObj =
+      obj.traits == null
+        ? {}
+        : reader.object(obj.traits, `${filterPath}.traits`) ?? {};
+
+    for (const [traitType, accepted] of Object.entries(traitsObj)) {
+      const traitPath = `${filterPath}.traits.${traitType}`;
+      traits[traitType] =
+        typeof accepted === "string"
+          ? [accepted]
+          : reader.stringArray(accepted, traitPath);
+    }
+
+    const minTier =
+      obj.minTier == null
+        ? null
+        : reader.oneOf(
+            obj.minTier,
+            `${filterPath}.minTier`,
+            tiers.map((tier) => tier.name)
+          );
+
+    return {
+      minSol: optionalNumber(obj.minSol, `${filterPath}.minSol`),
+      maxSol: optionalNumber(obj.maxSol, `${filterPath}.maxSol`),
+      minUsd: optionalNumber(obj.minUsd, `${filterPath}.minUsd`),
+      maxTierIndex:
+        minTier == null
+          ? null
+          : tiers.findIndex((tier) => tier.name === minTier),
+      traits,
+    };
+  });
+}
+
+function readRarity(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): RarityConfig {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+  const defaults = DEFAULT_RARITY_CONFIG;
+
+  const rankSources = reader
+    .stringArray(obj.rankSources, `${path}.rankSources`, defaults.rankSources)
+    .map((source, index) =>
+      reader.oneOf(source, `${path}.rankSources[${index}]`, RANK_SOURCES)
+    );
+
+  const tiers =
+    obj.tiers == null
+      ? defaults.tiers
+      : readObjectArray(
+          reader,
+          obj.tiers,
+          `${path}.tiers`,
+          (tier, tierPath): RarityTierConfig => ({
+            name: reader.string(tier.name, `${tierPath}.name`),
+            topPercent: reader.number(
+              tier.topPercent,
+              `${tierPath}.topPercent`,
+              100
+            ),
+            color: reader.color(tier.color, `${tierPath}.color`, 0x95a5a6),
+            orb:
+              tier.orb == null
+                ? ""
+                : reader.string(tier.orb, `${tierPath}.orb`),
+          })
+        );
+
+  if (tiers.length === 0) {
+    reader.fail(`${path}.tiers`, "expected at least one tier");
+  }
+
+  tiers.forEach((tier, index) => {
+    if (index > 0 && tier.topPercent <= tiers[index - 1].topPercent) {
+      reader.fail(
+        `${path}.tiers[${index}].topPercent`,
+        "tiers must be ordered from rarest to most common"
+      );
+    }
+  });
+
+  const unranked =
+    obj.unranked == null
+      ? {}
+      : reader.object(obj.unranked, `${path}.unranked`) ?? {};
+
+  return {
+    rankSources,
+    tiers,
+    unranked: {
+      name:
+        unranked.name == null
+          ? defaults.unranked.name
+          : reader.string(unranked.name, `${path}.unranked.name`),
+      color: reader.color(
+        unranked.color,
+        `${path}.unranked.color`,
+        defaults.unranked.color
+      ),
+      orb:
+        unranked.orb == null
+          ? defaults.unranked.orb
+          : reader.string(unranked.orb, `${path}.unranked.orb`),
+    },
+    fallbackSupply:
+      reader.number(
+        obj.fallbackSupply,
+        `${path}.fallbackSupply`,
+        defaults.fallbackSupply
+      ) || defaults.fallbackSupply,
+  };
+}
+
+function readFloorAlerts(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): FloorAlertConfig | null {
+  if (value == null) {
+    return null;
+  }
+
+  const obj = reader.object(value, path) ?? {};
+
+  const thresholds = reader.numberArray(obj.thresholds, `${path}.thresholds`);
+
+  const config = {
+    percent: reader.number(obj.percent, `${path}.percent`, 0),
+    windowMinutes: reader.number(
+      obj.windowMinutes,
+      `${path}.windowMinutes`,
+      60
+    ),
+    thresholds,
+    cooldownMinutes: reader.number(
+      obj.cooldownMinutes,
+      `${path}.cooldownMinutes`,
+      30
+    ),
+    pollSeconds: reader.number(obj.pollSeconds, `${path}.pollSeconds`, 60),
+  };
+
+  if (config.percent === 0 && thresholds.length === 0) {
+    reader.fail(path, "needs a percent or at least one threshold");
+  }
+
+  if (config.pollSeconds < 10) {
+    reader.fail(`${path}.pollSeconds`, "must be at least 10 seconds");
+  }
+
+  return config;
+}
+
+function readDigestTime(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): string | null {
+  if (value == null) {
+    return null;
+  }
+
+  const str = reader.string(value, path);
+  const match = /^(\d{2}):(\d{2})$/.exec(str);
+
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    reader.fail(path, 'expected a UTC time like "18:00"');
+    return null;
+  }
+
+  return str;
+}
+
+function readDigests(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): DigestConfig | null {
+  if (value == null) {
+    return null;
+  }
+
+  const obj = reader.object(value, path) ?? {};
+
+  const config = {
+    dailyAt: readDigestTime(reader, obj.dailyAt, `${path}.dailyAt`),
+    weeklyAt: readDigestTime(reader, obj.weeklyAt, `${path}.weeklyAt`),
+    weeklyOn:
+      obj.weeklyOn == null
+        ? "monday"
+        : reader.oneOf(obj.weeklyOn, `${path}.weeklyOn`, WEEKDAYS),
+    topSales: reader.number(obj.topSales, `${path}.topSales`, 5),
+  };
+
+  if (obj.dailyAt == null && obj.weeklyAt == null) {
+    reader.fail(path, "needs a dailyAt or weeklyAt time");
+  }
+
+  return config;
+}
+
+function readDisplay(
+  reader: ConfigReader,
+  value: unknown,
+  path: string,
+  slug: string
+): DisplayOptions {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+
+  return {
+    collectionName:
+      obj.collectionName == null
+        ? slug
+        : reader.string(obj.collectionName, `${path}.collectionName`),
+    traitName:
+      obj.traitName == null
+        ? "Faction"
+        : reader.string(obj.traitName, `${path}.traitName`),
+    showFloor: reader.boolean(obj.showFloor, `${path}.showFloor`, true),
+    showUsd: reader.boolean(obj.showUsd, `${path}.showUsd`, true),
+    currencies: reader
+      .stringArray(obj.currencies, `${path}.currencies`, ["usd"])
+      .map((currency, index) => {
+        if (!/^[a-zA-Z]{3}$/.test(currency)) {
+          reader.fail(
+            `${path}.currencies[${index}]`,
+            `"${currency}" is not a currency code like "usd"`
+          );
+        }
+        return currency.toLowerCase();
+      }),
+    saleCards: reader.boolean(obj.saleCards, `${path}.saleCards`, true),
+  };
+}
+
+function readCollection(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): CollectionConfig | null {
+  const obj = reader.object(value, path);
+
+  if (!obj) {
+    return null;
+  }
+
+  // filters refer to the collection's rarity tiers by name
+  const rarity = readRarity(reader, obj.rarity, `${path}.rarity`);
+  const { tiers } = rarity;
+
+  const discordWebhooks = readUrlTargets(
+    reader,
+    obj.discordWebhooks,
+    `${path}.discordWebhooks`,
+    readDiscordTemplates,
+    tiers
+  );
+
+  const twitter = readTwitter(reader, obj.twitter, `${path}.twitter`, tiers);
+
+  const telegram = readObjectArray(
+    reader,
+    obj.telegram,
+    `${path}.telegram`,
+    (item, itemPath) => ({
+      botToken: reader.string(item.botToken, `${itemPath}.botToken`),
+      chatId: reader.string(String(item.chatId ?? ""), `${itemPath}.chatId`),
+      templates: readTextTemplates(
+        reader,
+        item.templates,
+        `${itemPath}.templates`
+      ),
+      filters: readFilters(reader, item.filters, `${itemPath}.filters`, tiers),
+    })
+  );
+
+  const slackWebhooks = readUrlTargets(
+    reader,
+    obj.slackWebhooks,
+    `${path}.slackWebhooks`,
+    readTextTemplates,
+    tiers
+  );
+
+  const webhooks = readObjectArray(
+    reader,
+    obj.webhooks,
+    `${path}.webhooks`,
+    (item, itemPath) => ({
+      url: reader.url(item.url, `${itemPath}.url`),
+      secret: reader.string(item.secret, `${itemPath}.secret`),
+      filters: readFilters(reader, item.filters, `${itemPath}.filters`, tiers),
+    })
+  );
+
+  const slug = reader.string(obj.slug, `${path}.slug`);
+
+  return {
+    slug,
+    discordWebhooks,
+    twitter,
+    telegram,
+    slackWebhooks,
+    webhooks,
+    events: reader
+      .stringArray(obj.events, `${path}.events`, ["sale"])
+      .map((kind, index) =>
+        reader.oneOf(kind, `${path}.events[${index}]`, NOTIFICATION_KINDS)
+      ),
+    txTypes:
+      obj.txTypes == null
+        ? null
+        : reader.stringArray(obj.txTypes, `${path}.txTypes`),
+    sweepWindowSeconds: reader.number(
+      obj.sweepWindowSeconds,
+      `${path}.sweepWindowSeconds`,
+      0
+    ),
+    display: readDisplay(reader, obj.display, `${path}.display`, slug),
+    templates: readTemplateConfig(reader, obj.templates, `${path}.templates`),
+    rarity,
+    floorAlerts: readFloorAlerts(
+      reader,
+      obj.floorAlerts,
+      `${path}.floorAlerts`
+    ),
+    digests: readDigests(reader, obj.digests, `${path}.digests`),
+  };
+}
+
+function readWallets(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): WalletRegistry {
+  const obj = value == null ? {} : reader.object(value, path) ?? {};
+  const wallets: WalletRegistry = {};
+
+  for (const [address, entry] of Object.entries(obj)) {
+    const entryPath = `${path}.${address}`;
+
+    if (typeof entry === "string") {
+      wallets[address] = {
+        label: reader.string(entry, entryPath),
+        watch: false,
+      };
+      continue;
+    }
+
+    const entryObj = reader.object(entry, entryPath) ?? {};
+
+    wallets[address] = {
+      label:
+        entryObj.label == null
+          ? null
+          : reader.string(entryObj.label, `${entryPath}.label`),
+      watch: reader.boolean(entryObj.watch, `${entryPath}.watch`, false),
+    };
+  }
+
+  return wallets;
+}
+
+function readTokens(
+  reader: ConfigReader,
+  value: unknown,
+  path: string
+): TokenInfo[] {
+  return readObjectArray(reader, value, path, (item, itemPath) => {
+    const decimals = reader.number(item.decimals, `${itemPath}.decimals`, 0);
+
+    if (item.decimals == null || !Number.isInteger(decimals)) {
+      reader.fail(`${itemPath}.decimals`, "expected a whole number");
+    }
+
+    return {
+      mint: reader.string(item.mint, `${itemPath}.mint`),
+      symbol: reader.string(item.symbol, `${itemPath}.symbol`),
+      decimals,
+    };
+  });
+}
+
+export function parseConfig(raw: unknown, source: string): AppConfig {
+  const reader = new ConfigReader();
+  const root = reader.object(raw, "<root>");
+  const collections: CollectionConfig[] = [];
+  const wallets = readWallets(reader, root?.wallets, "wallets");
+  const tokens = readTokens(reader, root?.tokens, "tokens");
+
+  if (root) {
+    if (!Array.isArray(root.collections) || root.collections.length === 0) {
+      reader.fail("collections", "expected a non-empty array");
+    } else {
+      root.collections.forEach((item, index) => {
+        const collection = readCollection(
+          reader,
+          item,
+          `collections[${index}]`
+        );
+        collection && collections.push(collection);
+      });
+    }
+  }
+
+  if (
+    collections.length > 0 &&
+    collections.every((collection) => countSinks(collection) === 0)
+  ) {
+    reader.fail(
+      "collections",
+      "no output configured, set at least one of discordWebhooks, twitter, telegram, slackWebhooks or webhooks"
+    );
+  }
+
+  const seen = new Set<string>();
+  collections.forEach((collection, index) => {
+    if (collection.slug && seen.has(collection.slug)) {
+      reader.fail(
+        `collections[${index}].slug`,
+        `"${collection.slug}" is configured more than once`
+      );
+    }
+    seen.add(collection.slug);
+  });
+
+  if (reader.issues.length > 0) {
+    throw new ConfigError(source, reader.issues);
+  }
+
+  return { collections, wallets, tokens };
+}
+
+export function loadConfigFile(path: string): AppConfig {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new ConfigError(path, [
+      `could not be read as JSON: ${(err as Error).message}`,
+    ]);
+  }
+
+  return parseConfig(raw, path);
+}
+
+const TWITTER_ENV_KEYS = [
+  "TWITTER_API_KEY",
+  "TWITTER_API_SECRET",
+  "TWITTER_ACCESS_TOKEN",
+  "TWITTER_ACCESS_TOKEN_SECRET",
+] as const;
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Builds the config for the single-collection shorthand, where every slug in
+ * SLUGS goes to every sink whose credentials are set in the environment.
+ */
+export function loadConfigFromEnv(
+  source: NodeJS.ProcessEnv = process.env
+): AppConfig {
+  const env = cleanEnv(
+    source,
+    {
+      SLUGS: nonEmptyStrValidator(),
+      DISCORD_WEBHOOKS: str({ default: "" }),
+      TWITTER_API_KEY: str({ default: "" }),
+      TWITTER_API_SECRET: str({ default: "" }),
+      TWITTER_ACCESS_TOKEN: str({ default: "" }),
+      TWITTER_ACCESS_TOKEN_SECRET: str({ default: "" }),
+      TELEGRAM_BOT_TOKEN: str({ default: "" }),
+      TELEGRAM_CHAT_IDS: str({ default: "" }),
+      SLACK_WEBHOOKS: str({ default: "" }),
+    },
+    {
+      // envalid exits the process by default, a reload must not
+      reporter: ({ errors }) => {
+        const issues = Object.entries(errors).map(
+          ([key, error]) =>
+            `${key}: ${
+              error instanceof EnvMissingError ? "missing" : error?.message
+            }`
+        );
+
+        if (issues.length > 0) {
+          throw new ConfigError("environment", issues);
+        }
+      },
+    }
+  );
+
+  const missingTwitterKeys = TWITTER_ENV_KEYS.filter((key) => !env[key]);
+
+  if (
+    missingTwitterKeys.length > 0 &&
+    missingTwitterKeys.length < TWITTER_ENV_KEYS.length
+  ) {
+    throw new ConfigError("environment", [
+      `partial Twitter credentials, missing ${missingTwitterKeys.join(
+        ", "
+      )} (set all four TWITTER_* variables or none)`,
+    ]);
+  }
+
+  const telegramChatIds = splitList(env.TELEGRAM_CHAT_IDS);
+
+  if (Boolean(env.TELEGRAM_BOT_TOKEN) !== telegramChatIds.length > 0) {
+    throw new ConfigError("environment", [
+      "TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_IDS must be set together",
+    ]);
+  }
+
+  if (
+    !env.DISCORD_WEBHOOKS &&
+    missingTwitterKeys.length > 0 &&
+    telegramChatIds.length === 0 &&
+    !env.SLACK_WEBHOOKS
+  ) {
+    throw new ConfigError("environment", [
+      "no output configured, set DISCORD_WEBHOOKS, the TWITTER_* variables, TELEGRAM_BOT_TOKEN and TELEGRAM_CHAT_IDS, or SLACK_WEBHOOKS",
+    ]);
+  }
+
+  return parseConfig(
+    {
+      collections: splitList(env.SLUGS).map((slug) => ({
+        slug,
+        discordWebhooks: splitList(env.DISCORD_WEBHOOKS),
+        twitter:
+          missingTwitterKeys.length === 0
+            ? {
+                apiKey: env.TWITTER_API_KEY,
+                apiSecret: env.TWITTER_API_SECRET,
+                accessToken: env.TWITTER_ACCESS_TOKEN,
+                accessTokenSecret: env.TWITTER_ACCESS_TOKEN_SECRET,
+              }
+            : null,
+        telegram: telegramChatIds.map((chatId) => ({
+          botToken: env.TELEGRAM_BOT_TOKEN,
+          chatId,
+        })),
+        slackWebhooks: splitList(env.SLACK_WEBHOOKS),
+      })),
+    },
+    "environment"
+  );
+}
+
+export function loadConfig(configFile: string): AppConfig {
+  return configFile ? loadConfigFile(configFile) : loadConfigFromEnv();
+}
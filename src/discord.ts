@@ -0,0 +1,526 @@
+import { APIEmbedField, AttachmentBuilder, EmbedBuilder } from "discord.js";
+import { DiscordEmbedTemplate } from "./config";
+import { ImageBuffer } from "./lib/images";
+import { Rarity } from "./lib/rarity";
+import { renderTemplate } from "./lib/templates";
+import {
+  Digest,
+  FloorAlert,
+  LAMPORTS_PER_SOL,
+  NotificationEvent,
+  NotificationKind,
+  SweepEvent,
+  WalletAlert,
+  formatDigestStats,
+  formatDigestTitle,
+  formatFloorAlert,
+  formatFloorDifference,
+  formatPrice,
+  formatRarity,
+  formatWalletAlert,
+  formatWalletName,
+  getTemplateValue,
+} from "./notifications";
+import { TensorCollectionStats, TensorMint } from "./services/TensorService";
+import { roundToDecimal } from "./utils";
+
+// keeps the sweep list well within the embed description limit
+const MAX_SWEEP_ITEMS_LISTED = 25;
+
+const EMBED_TITLES: { [kind in NotificationKind]: (name: string) => string } = {
+  sale: (name) => name,
+  listing: (name) => `${name} listed`,
+  delisting: (name) => `${name} delisted`,
+  priceChange: (name) => `${name} price changed`,
+  bid: (name) => `New bid on ${name}`,
+};
+
+const SPACER: APIEmbedField = { name: "\n", value: "\n" };
+
+function formatWallet(
+  wallet: string | null,
+  label: string | null,
+  fallback: string
+): string {
+  return wallet
+    ? `[${formatWalletName(
+        wallet,
+        label
+      )}](https://www.tensor.trade/portfolio?wallet=${wallet})`
+    : fallback;
+}
+
+function getDescription(event: NotificationEvent): string | null {
+  const floorDifference = formatFloorDifference(event);
+  const suffix = floorDifference ? `, ${floorDifference}` : "";
+
+  switch (event.kind) {
+    case "listing":
+      return `Listed for ${formatPrice(event)}${suffix}`;
+    case "priceChange":
+      return `Price changed to ${formatPrice(event)}${suffix}`;
+    case "bid":
+      return `Bid of ${formatPrice(event)} placed${suffix}`;
+    case "delisting":
+      return "Removed from sale";
+    default:
+      return null;
+  }
+}
+
+function getPriceFields(event: NotificationEvent): APIEmbedField[] {
+  const { display } = event;
+
+  if (event.kind === "delisting") {
+    return [];
+  }
+
+  const fiatSuffix =
+    display.showUsd && event.formattedFiatPrice
+      ? ` (${event.formattedFiatPrice})`
+      : "";
+
+  return [
+    {
+      name: event.kind === "bid" ? "Bid" : "Price",
+      value: `${formatPrice(event)}${fiatSuffix}`,
+      inline: true,
+    },
+    ...(display.showFloor
+      ? [{ name: "Floor", value: `◎${event.floorPrice}`, inline: true }]
+      : []),
+    SPACER,
+  ];
+}
+
+function getWalletField(event: NotificationEvent): APIEmbedField {
+  const { buyerId, sellerId } = event.transaction.tx;
+
+  switch (event.kind) {
+    case "sale":
+      return {
+        name: "Wallets",
+        value: `${formatWallet(
+          sellerId,
+          event.sellerLabel,
+          "n/a"
+        )} → ${formatWallet(buyerId, event.buyerLabel, "Unknown")}`,
+        inline: true,
+      };
+    case "bid":
+      return {
+        name: "Bidder",
+        value: formatWallet(buyerId, event.buyerLabel, "Unknown"),
+        inline: true,
+      };
+    default:
+      return {
+        name: "Seller",
+        value: formatWallet(sellerId, event.sellerLabel, "Unknown"),
+        inline: true,
+      };
+  }
+}
+
+function getTemplateFields(
+  fields: NonNullable<DiscordEmbedTemplate["fields"]>,
+  render: (template: string) => string
+): APIEmbedField[] {
+  return fields
+    .map((field) => ({
+      name: render(field.name),
+      value: render(field.value),
+      inline: field.inline,
+    }))
+    .filter((field) => field.name.trim() && field.value.trim());
+}
+
+/**
+ * Sale cards are shown full size, plain NFT art as a thumbnail.
+ */
+function setEmbedImage(
+  embed: EmbedBuilder,
+  imageBuffer: ImageBuffer | null,
+  attachment: AttachmentBuilder | null,
+  fallbackUri: string
+): void {
+  if (imageBuffer?.card && attachment) {
+    embed.setImage(`attachment://${attachment.name}`);
+    return;
+  }
+
+  embed.setThumbnail(
+    attachment ? `attachment://${attachment.name}` : fallbackUri
+  );
+}
+
+export function createDiscordEmbed(
+  event: NotificationEvent,
+  imageBuffer: ImageBuffer | null,
+  template?: DiscordEmbedTemplate
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const { transaction, display } = event;
+  const nftName = transaction.mint.name;
+  const onchainId = transaction.mint.onchainId;
+  const imageUri = transaction.mint.imageUri;
+
+  const imageAttachment = imageBuffer
+    ? new AttachmentBuilder(imageBuffer.buffer, {
+        name: `${onchainId}.${imageBuffer.fileType?.ext}`,
+      })
+    : null;
+
+  const transactionLinks = [
+    `[Tensor](https://www.tensor.trade/item/${onchainId})`,
+    `[XRAY](https://xray.helius.xyz/tx/${transaction.tx.txId})`,
+  ];
+
+  const render = (text: string) =>
+    renderTemplate(text, (name) => getTemplateValue(event, name));
+
+  const defaultFields: APIEmbedField[] = [
+    {
+      name: "Rarity",
+      value: formatRarity(event),
+      inline: true,
+    },
+    ...(event.traitValue
+      ? [
+          {
+            name: display.traitName,
+            value: event.traitValue,
+            inline: true,
+          },
+        ]
+      : []),
+    SPACER,
+    ...getPriceFields(event),
+    getWalletField(event),
+    {
+      name: "Links",
+      value: transactionLinks.join(" | "),
+      inline: true,
+    },
+  ];
+
+  const embed = new EmbedBuilder()
+    .setTitle(
+      template?.title
+        ? render(template.title)
+        : EMBED_TITLES[event.kind](nftName)
+    )
+    .setURL(`https://www.tensor.trade/item/${onchainId}`)
+    .setColor(event.rarity.color)
+    .addFields(
+      template?.fields
+        ? getTemplateFields(template.fields, render)
+        : defaultFields
+    )
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  setEmbedImage(embed, imageBuffer, imageAttachment, imageUri);
+
+  const description = template?.description
+    ? render(template.description)
+    : getDescription(event);
+
+  if (description) {
+    embed.setDescription(description);
+  }
+
+  return { embed, attachment: imageAttachment };
+}
+
+export function createDiscordSweepEmbed(
+  sweep: SweepEvent,
+  imageBuffer: ImageBuffer | null
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const [first] = sweep.events;
+  const { display } = first;
+  const onchainId = first.transaction.mint.onchainId;
+
+  const imageAttachment = imageBuffer
+    ? new AttachmentBuilder(imageBuffer.buffer, {
+        name: `${onchainId}.${imageBuffer.fileType?.ext}`,
+      })
+    : null;
+
+  const items = sweep.events
+    .slice(0, MAX_SWEEP_ITEMS_LISTED)
+    .map(
+      (event) =>
+        `[${event.transaction.mint.name}](https://www.tensor.trade/item/${
+          event.transaction.mint.onchainId
+        }) - ${formatPrice(event)}`
+    );
+
+  const hiddenCount = sweep.events.length - items.length;
+
+  if (hiddenCount > 0) {
+    items.push(`...and ${hiddenCount} more`);
+  }
+
+  const fiatSuffix =
+    display.showUsd && sweep.formattedTotalFiat
+      ? ` (${sweep.formattedTotalFiat})`
+      : "";
+
+  const embed = new EmbedBuilder()
+    .setTitle(`🧹 ${sweep.events.length} items swept`)
+    .setURL(`https://www.tensor.trade/portfolio?wallet=${sweep.buyerId}`)
+    .setThumbnail(
+      imageBuffer
+        ? `attachment://${imageAttachment?.name}`
+        : first.transaction.mint.imageUri
+    )
+    .setDescription(items.join("\n"))
+    .addFields([
+      {
+        name: "Total",
+        value: `◎${sweep.totalSol}${fiatSuffix}`,
+        inline: true,
+      },
+      {
+        name: "Buyer",
+        value: formatWallet(sweep.buyerId, sweep.buyerLabel, "Unknown"),
+        inline: true,
+      },
+    ])
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  return { embed, attachment: imageAttachment };
+}
+
+export function createDiscordFloorAlertEmbed(
+  alert: FloorAlert,
+  collectionName: string
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const embed = new EmbedBuilder()
+    .setTitle(
+      `${alert.direction === "up" ? "📈" : "📉"} ${collectionName} floor alert`
+    )
+    .setURL(`https://www.tensor.trade/trade/${alert.slug}`)
+    .setColor(alert.direction === "up" ? 0x2ecc71 : 0xe74c3c)
+    .setDescription(formatFloorAlert(alert, collectionName))
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  return { embed, attachment: null };
+}
+
+export function createDiscordDigestEmbed(
+  digest: Digest,
+  collectionName: string
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const fields: APIEmbedField[] = [];
+
+  if (digest.topSales.length > 0) {
+    fields.push({
+      name: "Top sales",
+      value: digest.topSales
+        .map(
+          (sale, index) =>
+            `${index + 1}. [${sale.name}](https://www.tensor.trade/item/${
+              sale.mint
+            }) - ◎${sale.priceSol}`
+        )
+        .join("\n"),
+    });
+  }
+
+  if (digest.rarest) {
+    fields.push({
+      name: "Rarest sold",
+      value: `[${digest.rarest.name}](https://www.tensor.trade/item/${digest.rarest.mint}) - ${digest.rarest.rarityTier}, rank ${digest.rarest.rank}, for ◎${digest.rarest.priceSol}`,
+    });
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`📊 ${formatDigestTitle(digest, collectionName)}`)
+    .setURL(`https://www.tensor.trade/trade/${digest.slug}`)
+    .setDescription(formatDigestStats(digest).join("\n"))
+    .addFields(fields)
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  if (digest.rarest) {
+    embed.setThumbnail(digest.rarest.imageUri);
+  }
+
+  return { embed, attachment: null };
+}
+
+export function createDiscordWalletAlertEmbed(
+  alert: WalletAlert,
+  imageBuffer: ImageBuffer | null
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const { mint, tx } = alert.event.transaction;
+
+  const imageAttachment = imageBuffer
+    ? new AttachmentBuilder(imageBuffer.buffer, {
+        name: `${mint.onchainId}.${imageBuffer.fileType?.ext}`,
+      })
+    : null;
+
+  const embed = new EmbedBuilder()
+    .setTitle(`👀 ${formatWalletAlert(alert)}`)
+    .setURL(`https://www.tensor.trade/portfolio?wallet=${alert.wallet}`)
+    .setColor(alert.event.rarity.color)
+    .addFields([
+      {
+        name: "Item",
+        value: `[${mint.name}](https://www.tensor.trade/item/${mint.onchainId})`,
+        inline: true,
+      },
+      {
+        name: "Transaction",
+        value: `[View](https://xray.helius.xyz/tx/${tx.txId})`,
+        inline: true,
+      },
+    ])
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  setEmbedImage(embed, imageBuffer, imageAttachment, mint.imageUri);
+
+  return { embed, attachment: imageAttachment };
+}
+
+function formatLamports(lamports: string | number | null): string {
+  const sol = (Number(lamports) || 0) / LAMPORTS_PER_SOL;
+  return `◎${roundToDecimal(sol, 2)}`;
+}
+
+function formatChange(fraction: number | null): string {
+  if (fraction == null) {
+    return "";
+  }
+
+  const percent = roundToDecimal(fraction * 100, 1);
+  return ` (${percent > 0 ? "+" : ""}${percent}%)`;
+}
+
+export function createDiscordFloorEmbed(
+  slug: string,
+  stats: TensorCollectionStats,
+  collectionName: string
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const embed = new EmbedBuilder()
+    .setTitle(`${collectionName} floor`)
+    .setURL(`https://www.tensor.trade/trade/${slug}`)
+    .setDescription(
+      `${formatLamports(stats.buyNowPriceNetFees)}${formatChange(
+        stats.floor24h
+      )} in 24h`
+    )
+    .addFields([
+      { name: "Listed", value: `${stats.numListed ?? 0}`, inline: true },
+      { name: "Supply", value: `${stats.numMints ?? "?"}`, inline: true },
+    ])
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  return { embed, attachment: null };
+}
+
+export function createDiscordStatsEmbed(
+  slug: string,
+  stats: TensorCollectionStats,
+  collectionName: string
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const embed = new EmbedBuilder()
+    .setTitle(`📊 ${collectionName} stats`)
+    .setURL(`https://www.tensor.trade/trade/${slug}`)
+    .addFields([
+      {
+        name: "Floor",
+        value: `${formatLamports(stats.buyNowPriceNetFees)}${formatChange(
+          stats.floor24h
+        )}`,
+        inline: true,
+      },
+      {
+        name: "Listed",
+        value: `${stats.numListed ?? 0} / ${stats.numMints ?? "?"}`,
+        inline: true,
+      },
+      SPACER,
+      {
+        name: "Volume 24h",
+        value: formatLamports(stats.volume24h),
+        inline: true,
+      },
+      {
+        name: "Volume 7d",
+        value: formatLamports(stats.volume7d),
+        inline: true,
+      },
+      {
+        name: "Volume all time",
+        value: formatLamports(stats.volumeAll),
+        inline: true,
+      },
+      { name: "Sales 24h", value: `${stats.sales24h ?? 0}`, inline: true },
+      { name: "Sales 7d", value: `${stats.sales7d ?? 0}`, inline: true },
+      { name: "Sales all time", value: `${stats.salesAll ?? 0}`, inline: true },
+    ])
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  return { embed, attachment: null };
+}
+
+export function createDiscordRarityEmbed(
+  mint: TensorMint,
+  rarity: Rarity,
+  traitName: string
+): { embed: EmbedBuilder; attachment: AttachmentBuilder | null } {
+  const traitValue = traitName
+    ? mint.attributes.find((attr) => attr.trait_type === traitName)?.value
+    : undefined;
+
+  const embed = new EmbedBuilder()
+    .setTitle(mint.name)
+    .setURL(`https://www.tensor.trade/item/${mint.onchainId}`)
+    .setColor(rarity.color)
+    .addFields([
+      { name: "Rarity", value: formatRarity({ rarity }), inline: true },
+      ...(traitValue
+        ? [{ name: traitName, value: traitValue, inline: true }]
+        : []),
+    ])
+    .setFooter({
+      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
+      text: "Tensor Trade",
+    })
+    .setTimestamp();
+
+  if (mint.imageUri) {
+    embed.setThumbnail(mint.imageUri);
+  }
+
+  return { embed, attachment: null };
+}
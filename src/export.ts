@@ -0,0 +1,105 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import { writeFile } from "fs/promises";
+import { parseArgs } from "util";
+import SaleHistory, {
+  SaleHistoryRecord,
+  formatSalesCsv,
+  parseSaleQuery,
+} from "./services/SaleHistory";
+
+// rows fetched per query when exporting everything
+const PAGE_SIZE = 5000;
+
+const USAGE = `Usage: npm run export -- [options]
+
+  --format csv|json  defaults to csv
+  --out <file>       defaults to stdout
+  --db <file>        defaults to SALE_HISTORY_PATH or data/sales.db
+  --slug <slug>
+  --from <date>      e.g. 2024-05-01 or a timestamp in ms
+  --to <date>
+  --wallet <address> sales the wallet bought or sold
+  --trait <type:value>
+  --limit <n>        defaults to every matching sale
+`;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      format: { type: "string", default: "csv" },
+      out: { type: "string" },
+      db: { type: "string" },
+      slug: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      wallet: { type: "string" },
+      trait: { type: "string" },
+      limit: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  if (values.format !== "csv" && values.format !== "json") {
+    throw new Error(`Unknown format "${values.format}", expected csv or json`);
+  }
+
+  const params = new URLSearchParams();
+
+  for (const name of ["slug", "from", "to", "wallet", "trait", "limit"]) {
+    const value = values[name as keyof typeof values];
+    if (typeof value === "string") {
+      params.set(name, value);
+    }
+  }
+
+  const query = parseSaleQuery(params);
+
+  const history = new SaleHistory(
+    values.db ?? process.env.SALE_HISTORY_PATH ?? "data/sales.db",
+    { readonly: true }
+  );
+  await history.load();
+
+  let sales: SaleHistoryRecord[];
+
+  if (values.limit) {
+    sales = history.query(query);
+  } else {
+    sales = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = history.query({ ...query, limit: PAGE_SIZE, offset });
+      sales.push(...page);
+
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+  }
+
+  history.close();
+
+  const output =
+    values.format === "json"
+      ? `${JSON.stringify(sales, null, 2)}\n`
+      : formatSalesCsv(sales);
+
+  if (values.out) {
+    await writeFile(values.out, output);
+    console.error(`Exported ${sales.length} sales to ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SaleFilter } from "./config";
+import { matchesFilters, sweepMatchesFilters } from "./filters";
+import { createSweepEvent } from "./notifications";
+import { createEvent, createTransaction } from "./testing";
+
+function filter(overrides: Partial<SaleFilter>): SaleFilter {
+  return {
+    minSol: null,
+    maxSol: null,
+    minUsd: null,
+    maxTierIndex: null,
+    traits: {},
+    ...overrides,
+  };
+}
+
+// 2 SOL at $150, ranked 50 of 10,000
+const event = await createEvent();
+
+test("everything matches without filters", () => {
+  assert.equal(matchesFilters(event, []), true);
+  assert.equal(matchesFilters(event, [filter({})]), true);
+});
+
+test("the SOL price is bounded on both sides", () => {
+  assert.equal(matchesFilters(event, [filter({ minSol: 2 })]), true);
+  assert.equal(matchesFilters(event, [filter({ minSol: 2.5 })]), false);
+  assert.equal(matchesFilters(event, [filter({ maxSol: 2 })]), true);
+  assert.equal(matchesFilters(event, [filter({ maxSol: 1.5 })]), false);
+});
+
+test("a USD minimum fails without a price", async () => {
+  assert.equal(matchesFilters(event, [filter({ minUsd: 300 })]), true);
+  assert.equal(matchesFilters(event, [filter({ minUsd: 301 })]), false);
+
+  const unpriced = await createEvent(undefined, { usdPerSol: null });
+  assert.equal(matchesFilters(unpriced, [filter({ minUsd: 1 })]), false);
+  assert.equal(matchesFilters(unpriced, [filter({ minSol: 1 })]), true);
+});
+
+test("the tier has to be at least as rare", async () => {
+  const rare = await createEvent(
+    createTransaction({ mint: { rarityRankTT: 1200 } })
+  );
+
+  assert.equal(matchesFilters(rare, [filter({ maxTierIndex: 2 })]), true);
+  assert.equal(matchesFilters(rare, [filter({ maxTierIndex: 1 })]), false);
+});
+
+test("every trait type has to have an accepted value", () => {
+  const traits = { Faction: ["Tensorians", "Outlaws"] };
+
+  assert.equal(matchesFilters(event, [filter({ traits })]), true);
+  assert.equal(
+    matchesFilters(event, [filter({ traits: { Faction: ["Outlaws"] } })]),
+    false
+  );
+  assert.equal(
+    matchesFilters(event, [filter({ traits: { ...traits, Hat: ["Cap"] } })]),
+    false
+  );
+});
+
+test("any of the filters has to match", () => {
+  const filters = [filter({ minSol: 10 }), filter({ maxSol: 1 })];
+
+  assert.equal(matchesFilters(event, filters), false);
+  assert.equal(
+    matchesFilters(event, [...filters, filter({ minUsd: 100 })]),
+    true
+  );
+});
+
+test("a sweep matches when any of its sales does", async () => {
+  const cheap = await createEvent(
+    createTransaction({ tx: { txKey: "cheap", grossAmount: "500000000" } })
+  );
+  const sweep = createSweepEvent([cheap, event]);
+
+  assert.equal(sweepMatchesFilters(sweep, [filter({ minSol: 1 })]), true);
+  assert.equal(sweepMatchesFilters(sweep, [filter({ minSol: 5 })]), false);
+});
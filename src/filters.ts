@@ -0,0 +1,57 @@
+import { SaleFilter } from "./config";
+import { NotificationEvent, SweepEvent } from "./notifications";
+
+function matchesFilter(event: NotificationEvent, filter: SaleFilter): boolean {
+  if (filter.minSol != null && event.solPrice < filter.minSol) {
+    return false;
+  }
+
+  if (filter.maxSol != null && event.solPrice > filter.maxSol) {
+    return false;
+  }
+
+  if (
+    filter.minUsd != null &&
+    (event.usdPrice == null || event.usdPrice < filter.minUsd)
+  ) {
+    return false;
+  }
+
+  if (
+    filter.maxTierIndex != null &&
+    event.rarity.tierIndex > filter.maxTierIndex
+  ) {
+    return false;
+  }
+
+  const { attributes } = event.transaction.mint;
+
+  return Object.entries(filter.traits).every(([traitType, accepted]) =>
+    attributes.some(
+      (attr) => attr.trait_type === traitType && accepted.includes(attr.value)
+    )
+  );
+}
+
+/**
+ * True when the event matches any of the filters, or there are none.
+ */
+export function matchesFilters(
+  event: NotificationEvent,
+  filters: SaleFilter[]
+): boolean {
+  return (
+    filters.length === 0 ||
+    filters.some((filter) => matchesFilter(event, filter))
+  );
+}
+
+/**
+ * A sweep is posted when any of its items would have been.
+ */
+export function sweepMatchesFilters(
+  sweep: SweepEvent,
+  filters: SaleFilter[]
+): boolean {
+  return sweep.events.some((event) => matchesFilters(event, filters));
+}
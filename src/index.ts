@@ -1,385 +1,724 @@
 import dotenv from "dotenv";
+// what the shell set, .env only fills in the rest
+const shellEnv = { ...process.env };
 dotenv.config();
 
+import { readFileSync } from "fs";
+import { TensorTransaction } from "./services/TensorService";
+import TensorServicePool from "./services/TensorServicePool";
+import SeenTransactionStore from "./services/SeenTransactionStore";
+import { nonEmptyStrValidator } from "./utils";
+import { bool, cleanEnv, num, str } from "envalid";
 import {
-  AttachmentBuilder,
-  EmbedBuilder,
-  WebhookClient,
-  WebhookMessageCreateOptions,
-} from "discord.js";
-
-import TensorService, { TensorTransaction } from "./services/TensorService";
-import { nonEmptyStrValidator, roundToDecimal, smartTruncate } from "./utils";
-import { cleanEnv, str } from "envalid";
-import { TwitterApi } from "twitter-api-v2";
-import { getSimplePrice } from "./lib/coingecko";
-import { fileTypeFromBuffer } from "file-type";
-
-const LAMPORTS_PER_SOL = 1_000_000_000;
-
-const enum RarityTier {
-  Mythic = "Mythic",
-  Legendary = "Legendary",
-  Epic = "Epic",
-  Rare = "Rare",
-  Uncommon = "Uncommon",
-  Common = "Common",
+  AppConfig,
+  CollectionConfig,
+  SaleFilter,
+  loadConfig,
+  loadConfigFile,
+  loadConfigFromEnv,
+} from "./config";
+import { matchesFilters, sweepMatchesFilters } from "./filters";
+import {
+  CollectionStats,
+  NotificationEvent,
+  NotificationKind,
+  createNotificationEvent,
+  createSweepEvent,
+  getNotificationKind,
+  getWalletAlerts,
+  hasWatchedWallet,
+} from "./notifications";
+import SweepAggregator from "./services/SweepAggregator";
+import FloorMonitor from "./services/FloorMonitor";
+import SaleHistory from "./services/SaleHistory";
+import SaleHistoryServer from "./services/SaleHistoryServer";
+import DigestScheduler from "./services/DigestScheduler";
+import DeliveryQueue, { DeliveryPayload } from "./services/DeliveryQueue";
+import ImageCache from "./services/ImageCache";
+import HealthServer from "./services/HealthServer";
+import DiscordBot from "./services/DiscordBot";
+import ConfigWatcher from "./services/ConfigWatcher";
+import PriceOracle from "./services/PriceOracle";
+import { PriceProvider } from "./lib/prices";
+import { CoinGeckoPriceProvider } from "./lib/coingecko";
+import { JupiterPriceProvider } from "./lib/jupiter";
+import { ImageBuffer } from "./lib/images";
+import { renderSaleCard } from "./cards";
+import { registry, transactionsReceived } from "./metrics";
+import { loadReplayFile } from "./replay";
+import { Notifier } from "./notifiers/Notifier";
+import DiscordNotifier from "./notifiers/DiscordNotifier";
+import TwitterNotifier from "./notifiers/TwitterNotifier";
+import TelegramNotifier from "./notifiers/TelegramNotifier";
+import SlackNotifier from "./notifiers/SlackNotifier";
+import WebhookNotifier from "./notifiers/WebhookNotifier";
+
+// replays run offline, without a floor and with the fallback supply
+const REPLAY_STATS: CollectionStats = {
+  buyNowPriceNetFees: null,
+  numMints: null,
+};
+
+function logTransactionToConsole(
+  kind: NotificationKind,
+  transaction: TensorTransaction
+) {
+  const nftName = transaction.mint.name;
+  const onchainId = transaction.mint.onchainId;
+  const imageUri = transaction.mint.imageUri;
+  const buyerId = transaction.tx.buyerId;
+  const sellerId = transaction.tx.sellerId;
+
+  const grossSaleAmount = transaction.tx.grossAmount;
+
+  console.log(`New ${kind} for ${nftName} (${onchainId})
+        Image: ${imageUri}
+        Buyer: ${buyerId}
+        Seller: ${sellerId}
+        Gross sale amount: ${grossSaleAmount}
+        `);
 }
 
-const RarityTierPercentages = {
-  [RarityTier.Mythic]: 0.01,
-  [RarityTier.Legendary]: 0.05,
-  [RarityTier.Epic]: 0.15,
-  [RarityTier.Rare]: 0.35,
-  [RarityTier.Uncommon]: 0.6,
-  [RarityTier.Common]: 1,
-};
+interface RouteSink {
+  notifier: Notifier;
+  filters: SaleFilter[];
+}
 
-function getRarityTier(rarityRank: number, maxSupply: number): RarityTier {
-  const rarityPercentage = rarityRank / maxSupply;
+interface CollectionRoute {
+  collection: CollectionConfig;
+  sinks: RouteSink[];
+}
 
-  for (const [rarityTier, rarityPercentageThreshold] of Object.entries(
-    RarityTierPercentages
-  )) {
-    if (rarityPercentage <= rarityPercentageThreshold) {
-      return rarityTier as RarityTier;
+/**
+ * Notifiers are keyed by their credentials and templates. Collections sharing
+ * a sink share one notifier and its client, and on a reload the notifiers of
+ * unchanged sinks in `previous` are kept. `sinks` has the same notifiers by
+ * destination only, so queued messages survive a template edit.
+ */
+function buildRoutes(
+  collections: CollectionConfig[],
+  dryRun: boolean,
+  previous = new Map<string, Notifier>()
+) {
+  const notifiers = new Map<string, Notifier>();
+  const sinks = new Map<string, Notifier>();
+
+  const getSink = (
+    destination: string,
+    variant: string,
+    filters: SaleFilter[],
+    create: () => Notifier
+  ): RouteSink => {
+    const key = `${destination}:${variant}`;
+
+    if (!notifiers.has(key)) {
+      const notifier = previous.get(key) ?? create();
+      notifiers.set(key, notifier);
+
+      // one destination with several template sets is several sinks
+      let sink = destination;
+      for (let n = 2; sinks.has(sink); n++) {
+        sink = `${destination}#${n}`;
+      }
+      sinks.set(sink, notifier);
     }
+
+    return { notifier: notifiers.get(key)!, filters };
+  };
+
+  const routes = new Map<string, CollectionRoute>();
+
+  for (const collection of collections) {
+    const { twitter } = collection;
+
+    routes.set(collection.slug, {
+      collection,
+      sinks: [
+        ...collection.discordWebhooks.map(({ url, templates, filters }) =>
+          getSink(
+            `discord:${url}`,
+            JSON.stringify(templates),
+            filters,
+            () => new DiscordNotifier(url, templates, dryRun)
+          )
+        ),
+        ...(twitter
+          ? [
+              getSink(
+                `twitter:${twitter.accessToken}`,
+                `${twitter.apiKey}:${JSON.stringify(twitter.templates)}`,
+                twitter.filters,
+                () => new TwitterNotifier(twitter, dryRun)
+              ),
+            ]
+          : []),
+        ...collection.telegram.map(({ botToken, chatId, templates, filters }) =>
+          getSink(
+            `telegram:${botToken}:${chatId}`,
+            JSON.stringify(templates),
+            filters,
+            () => new TelegramNotifier(botToken, chatId, templates, dryRun)
+          )
+        ),
+        ...collection.slackWebhooks.map(({ url, templates, filters }) =>
+          getSink(
+            `slack:${url}`,
+            JSON.stringify(templates),
+            filters,
+            () => new SlackNotifier(url, templates, dryRun)
+          )
+        ),
+        ...collection.webhooks.map(({ url, secret, filters }) =>
+          getSink(
+            `webhook:${url}`,
+            secret,
+            filters,
+            () => new WebhookNotifier(url, secret, dryRun)
+          )
+        ),
+      ],
+    });
   }
 
-  return RarityTier.Common;
+  return { routes, notifiers, sinks };
 }
 
-function getRarityColorOrb(rarityTier: RarityTier): string {
-  switch (rarityTier) {
-    case RarityTier.Mythic:
-      return "🔴";
-    case RarityTier.Legendary:
-      return "🟠";
-    case RarityTier.Epic:
-      return "🟣";
-    case RarityTier.Rare:
-      return "🔵";
-    case RarityTier.Uncommon:
-      return "🟢";
-    default:
-      return "⚪️";
+function isEnabled(
+  collection: CollectionConfig,
+  kind: NotificationKind,
+  transaction: TensorTransaction
+): boolean {
+  if (!collection.events.includes(kind)) {
+    return false;
   }
+
+  return (
+    collection.txTypes == null ||
+    collection.txTypes.includes(transaction.tx.txType)
+  );
 }
 
-async function createDiscordSaleEmbed(
-  transaction: TensorTransaction,
-  imageBuffer: {
-    buffer: Buffer;
-    fileType: { ext: string; mime: string } | undefined;
-  } | null,
-  extra: { stats: { buyNowPriceNetFees: string; numMints: number } }
-): Promise<{ embed: EmbedBuilder; attachment: AttachmentBuilder | null }> {
-  const nftName = transaction.mint.name;
-  const onchainId = transaction.mint.onchainId;
-  const imageUri = transaction.mint.imageUri;
-  const buyerId = transaction.tx.buyerId;
-  const sellerId = transaction.tx.sellerId;
-  const rank = transaction.mint.rarityRankTT;
+function getNotifiers(route: CollectionRoute): Notifier[] {
+  return route.sinks.map((sink) => sink.notifier);
+}
 
-  const grossSaleAmount = parseInt(transaction.tx.grossAmount, 10);
+function logSinks(routes: Map<string, CollectionRoute>) {
+  for (const [slug, route] of routes) {
+    const names = getNotifiers(route).map((notifier) => notifier.name);
+    console.log(
+      names.length > 0
+        ? `Active sinks for ${slug}: ${names.join(", ")}`
+        : `No sinks configured for ${slug}, nothing will be posted`
+    );
+  }
+}
 
-  const imageAttachment = imageBuffer
-    ? new AttachmentBuilder(imageBuffer.buffer, {
-        name: `${onchainId}.${imageBuffer.fileType?.ext}`,
-      })
-    : null;
+function publishEvent(
+  queue: DeliveryQueue,
+  route: CollectionRoute,
+  event: NotificationEvent
+) {
+  const notifiers = route.sinks
+    .filter((sink) => matchesFilters(event, sink.filters))
+    .map((sink) => sink.notifier);
+
+  queue.enqueue(
+    notifiers,
+    { type: "event", event },
+    event.transaction.mint.imageUri
+  );
+}
 
-  const buyerMessage = buyerId
-    ? `[${buyerId.slice(
-        0,
-        4
-      )}](https://www.tensor.trade/portfolio?wallet=${buyerId})`
-    : "Unknown";
+function publishSweep(
+  queue: DeliveryQueue,
+  route: CollectionRoute,
+  events: NotificationEvent[]
+) {
+  const sweep = createSweepEvent(events);
 
-  const sellerMessage = sellerId
-    ? `[${sellerId.slice(
-        0,
-        4
-      )}](https://www.tensor.trade/portfolio?wallet=${sellerId})`
-    : "n/a";
+  console.log(
+    `Sweep of ${events.length} items by ${sweep.buyerId} in ${sweep.slug}`
+  );
 
-  const buyerSellerMessage = `${sellerMessage} → ${buyerMessage}`;
+  const notifiers = route.sinks
+    .filter((sink) => sweepMatchesFilters(sweep, sink.filters))
+    .map((sink) => sink.notifier);
 
-  const conversions = await getSimplePrice("solana", "usd");
-  const usdConversion = conversions["solana"].usd;
+  queue.enqueue(
+    notifiers,
+    { type: "sweep", sweep },
+    events[0].transaction.mint.imageUri
+  );
+}
 
-  const solanaPrice = roundToDecimal(grossSaleAmount / LAMPORTS_PER_SOL, 2);
-  const usdPrice = solanaPrice * usdConversion;
+/**
+ * The NFT art from the cache, turned into a sale card for sales and wallet
+ * alerts when the collection has them enabled.
+ */
+async function loadPayloadImage(
+  imageCache: ImageCache,
+  payload: DeliveryPayload,
+  imageUri: string
+): Promise<ImageBuffer | null> {
+  const sale =
+    payload.type === "event"
+      ? payload.event
+      : payload.type === "wallet"
+      ? payload.alert.event
+      : null;
+  const mint =
+    payload.type === "sweep"
+      ? payload.sweep.events[0].transaction.mint
+      : sale?.transaction.mint;
+
+  if (!mint) {
+    return null;
+  }
 
-  const formattedUsdPrice = usdPrice.toLocaleString("en-US", {
-    currency: "USD",
-    style: "currency",
-  });
+  const art = await imageCache.get(mint.onchainId, imageUri);
+
+  if (!sale || sale.kind !== "sale" || !sale.display.saleCards) {
+    return art;
+  }
 
-  const rarityClass = getRarityTier(rank, extra.stats.numMints || 10_000);
-  const rarityOrb = getRarityColorOrb(rarityClass);
+  try {
+    return await renderSaleCard(sale, art);
+  } catch (err) {
+    console.error(`Failed to render sale card for ${mint.onchainId}`, err);
+    return art;
+  }
+}
 
-  const rarityMessage =
-    rank != null ? `${rarityOrb} ${rarityClass} (${rank})` : "TBD";
+function readDotenv(): dotenv.DotenvParseOutput {
+  try {
+    return dotenv.parse(readFileSync(".env"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw err;
+    }
+    return {};
+  }
+}
 
-  const faction =
-    transaction.mint.attributes.find((attr) => attr.trait_type === "Faction")
-      ?.value || "";
+function createPriceProviders(
+  names: string,
+  coingeckoApiKey: string
+): PriceProvider[] {
+  const factories: { [name: string]: () => PriceProvider } = {
+    coingecko: () => new CoinGeckoPriceProvider(coingeckoApiKey),
+    jupiter: () => new JupiterPriceProvider(),
+  };
+
+  const providers = names
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      if (!factories[name]) {
+        throw new Error(
+          `Unknown price provider "${name}" in PRICE_PROVIDERS, expected ${Object.keys(
+            factories
+          ).join(", ")}`
+        );
+      }
+      return factories[name]();
+    });
 
-  const transactionLinks = [
-    `[Tensor](https://www.tensor.trade/item/${onchainId})`,
-    `[XRAY](https://xray.helius.xyz/tx/${transaction.tx.txId})`,
-  ];
+  if (providers.length === 0) {
+    throw new Error("PRICE_PROVIDERS needs at least one provider");
+  }
 
-  const embed = new EmbedBuilder()
-    .setTitle(`${nftName}`)
-    .setURL(`https://www.tensor.trade/item/${onchainId}`)
-    .setThumbnail(
-      imageBuffer ? `attachment://${imageAttachment?.name}` : imageUri
-    )
-    .addFields([
-      {
-        name: "Rarity",
-        value: rarityMessage,
-        inline: true,
-      },
-      {
-        name: "Faction",
-        value: faction,
-        inline: true,
-      },
-      {
-        name: "\n",
-        value: "\n",
-      },
-      {
-        name: "Price",
-        value: `◎${roundToDecimal(
-          grossSaleAmount / LAMPORTS_PER_SOL,
-          2
-        )} (${formattedUsdPrice})`,
-        inline: true,
-      },
-      {
-        name: "Floor",
-        value: `◎${roundToDecimal(
-          parseInt(extra.stats.buyNowPriceNetFees, 10) / LAMPORTS_PER_SOL,
-          2
-        )}`,
-        inline: true,
-      },
-      {
-        name: "\n",
-        value: "\n",
-      },
-      {
-        name: "Wallets",
-        value: buyerSellerMessage,
-        inline: true,
-      },
-      {
-        name: "Links",
-        value: transactionLinks.join(" | "),
-        inline: true,
-      },
-    ])
-    .setFooter({
-      iconURL: "https://i.ibb.co/ZMRt7cp/tt.png",
-      text: "Tensor Trade",
-    })
-    .setTimestamp();
-
-  return { embed, attachment: imageAttachment };
+  return providers;
 }
 
-async function getImageBuffer(imageUri: string): Promise<{
-  buffer: Buffer;
-  fileType: { ext: string; mime: string } | undefined;
-} | null> {
-  try {
-    const response = await fetch(imageUri);
+async function main() {
+  const env = cleanEnv(process.env, {
+    TENSOR_API_URL: str({
+      default: "https://api.tensor.so/graphql",
+    }),
+    TENSOR_API_KEY: nonEmptyStrValidator(),
+    CONFIG_FILE: str({ default: "" }),
+    CONFIG_WATCH: bool({ default: true }),
+    DEDUP_STORE_PATH: str({ default: "data/seen-transactions.json" }),
+    DEDUP_RETENTION_HOURS: num({ default: 72 }),
+    SALE_HISTORY_PATH: str({ default: "data/sales.db" }),
+    SALE_HISTORY_PORT: num({ default: 0 }),
+    DELIVERY_QUEUE_PATH: str({ default: "data/delivery-queue.json" }),
+    DEAD_LETTER_PATH: str({ default: "data/dead-letters.jsonl" }),
+    DELIVERY_MAX_ATTEMPTS: num({ default: 8 }),
+    HEALTH_PORT: num({ default: 0 }),
+    HEALTH_MAX_MESSAGE_AGE_SECONDS: num({ default: 120 }),
+    RECORD_FILE: str({ default: "" }),
+    REPLAY_FILE: str({ default: "" }),
+    DRY_RUN: bool({ default: false }),
+    BACKFILL_LIMIT: num({ default: 50 }),
+    BACKFILL_MAX_AGE_MINUTES: num({ default: 60 }),
+    TENSOR_MAX_SLUGS_PER_CONNECTION: num({ default: 0 }),
+    TENSOR_REBALANCE_AFTER_SECONDS: num({ default: 60 }),
+    PRICE_PROVIDERS: str({ default: "coingecko,jupiter" }),
+    COINGECKO_API_KEY: str({ default: "" }),
+    PRICE_CACHE_SECONDS: num({ default: 300 }),
+    PRICE_MAX_STALE_HOURS: num({ default: 24 }),
+    IMAGE_CACHE_DIR: str({ default: "data/images" }),
+    IMAGE_CACHE_MAX_FILES: num({ default: 2000 }),
+    DISCORD_BOT_TOKEN: str({ default: "" }),
+    DISCORD_BOT_GUILD_ID: str({ default: "" }),
+  });
 
-    if (!response.ok) {
-      return null;
+  let config = loadConfig(env.CONFIG_FILE);
+  // without providers replays show no fiat prices instead of fetching them
+  const prices = new PriceOracle(
+    env.REPLAY_FILE
+      ? []
+      : createPriceProviders(env.PRICE_PROVIDERS, env.COINGECKO_API_KEY),
+    {
+      cacheMs: env.PRICE_CACHE_SECONDS * 1000,
+      maxStaleMs: env.PRICE_MAX_STALE_HOURS * 60 * 60 * 1000,
     }
+  );
+  const initial = buildRoutes(config.collections, env.DRY_RUN);
+  let { routes, notifiers } = initial;
 
-    const arrayBuffer = await response.arrayBuffer();
+  // dry runs and replays must not touch the state of the real bot
+  const persist = !env.DRY_RUN && !env.REPLAY_FILE;
 
-    const buffer = Buffer.from(arrayBuffer);
+  if (!persist) {
+    console.log("Dry run or replay, keeping all state in memory");
+  }
 
-    const fileType = await fileTypeFromBuffer(buffer);
+  logSinks(routes);
 
-    return { buffer, fileType };
-  } catch (err) {
-    return null;
-  }
-}
+  const seenTransactions = new SeenTransactionStore(
+    persist ? env.DEDUP_STORE_PATH : "",
+    env.DEDUP_RETENTION_HOURS * 60 * 60 * 1000
+  );
+  await seenTransactions.load();
 
-async function sendTwitterSaleTweet(
-  twitterClient: TwitterApi,
-  transaction: TensorTransaction,
-  imageBuffer: {
-    buffer: Buffer;
-    fileType: { ext: string; mime: string } | undefined;
-  } | null,
-  extra: { stats: { buyNowPriceNetFees: string; numMints: number } }
-) {
-  const nftName = transaction.mint.name;
-  const onchainId = transaction.mint.onchainId;
-  const txId = transaction.tx.txId;
-  const grossSaleAmount = parseInt(transaction.tx.grossAmount, 10);
-  const rank = transaction.mint.rarityRankTT;
+  const saleHistory = new SaleHistory(persist ? env.SALE_HISTORY_PATH : "");
+  await saleHistory.load();
 
-  const conversions = await getSimplePrice("solana", "usd");
-  const usdConversion = conversions["solana"].usd;
+  const imageCache = new ImageCache(
+    persist ? env.IMAGE_CACHE_DIR : "",
+    env.IMAGE_CACHE_MAX_FILES
+  );
+  await imageCache.load();
+
+  const queue = new DeliveryQueue(
+    persist ? env.DELIVERY_QUEUE_PATH : "",
+    persist ? env.DEAD_LETTER_PATH : "",
+    {
+      maxAttempts: env.DELIVERY_MAX_ATTEMPTS,
+      loadImage: (payload, imageUri) =>
+        loadPayloadImage(imageCache, payload, imageUri),
+    }
+  );
+  await queue.load();
+  queue.setNotifiers(initial.sinks);
 
-  const solanaPrice = roundToDecimal(grossSaleAmount / LAMPORTS_PER_SOL, 2);
-  const usdPrice = solanaPrice * usdConversion;
+  // several comma separated keys are used in turn
+  const tensorService = new TensorServicePool(
+    env.TENSOR_API_URL,
+    env.TENSOR_API_KEY.split(",")
+      .map((key) => key.trim())
+      .filter(Boolean),
+    {
+      backfillLimit: env.BACKFILL_LIMIT,
+      backfillMaxAgeMs: env.BACKFILL_MAX_AGE_MINUTES * 60 * 1000,
+      recordPath: env.RECORD_FILE,
+      maxSlugsPerConnection: env.TENSOR_MAX_SLUGS_PER_CONNECTION,
+      rebalanceAfterMs: env.TENSOR_REBALANCE_AFTER_SECONDS * 1000,
+    }
+  );
+
+  const sweeps = new SweepAggregator((events) => {
+    const route = routes.get(events[0].slug);
+
+    if (!route) {
+      return;
+    }
 
-  const formattedUsdPrice = usdPrice.toLocaleString("en-US", {
-    currency: "USD",
-    style: "currency",
+    if (events.length > 1) {
+      publishSweep(queue, route, events);
+    } else {
+      publishEvent(queue, route, events[0]);
+    }
   });
 
-  const marketplaceUrl = `https://www.tensor.trade/item/${onchainId}`;
+  const createEvent = async (
+    kind: NotificationKind,
+    transaction: TensorTransaction,
+    collection: CollectionConfig
+  ) => {
+    const stats = env.REPLAY_FILE
+      ? REPLAY_STATS
+      : await tensorService.getCollectionStats(collection.slug);
+
+    return createNotificationEvent(kind, transaction, collection.slug, {
+      stats,
+      display: collection.display,
+      templates: collection.templates,
+      rarity: collection.rarity,
+      wallets: config.wallets,
+      tokens: config.tokens,
+      prices,
+    });
+  };
+
+  const handleTransaction = async (
+    transaction: TensorTransaction,
+    slug: string
+  ) => {
+    transactionsReceived.inc({
+      slug,
+      source: transaction.tx.source,
+      txType: transaction.tx.txType,
+    });
+
+    const route = routes.get(slug);
+
+    const kind = getNotificationKind(transaction.tx.txType);
+
+    if (!route || !kind) {
+      return;
+    }
 
-  const usdMessage = usdPrice != null ? `💵 ${formattedUsdPrice} USD\n` : "";
+    // watched wallets are alerted about even when announcements are filtered
+    const enabled = isEnabled(route.collection, kind, transaction);
 
-  const rarityClass = getRarityTier(rank, extra.stats.numMints || 10_000);
-  const rarityOrb = getRarityColorOrb(rarityClass);
+    if (!enabled && !hasWatchedWallet(transaction, config.wallets)) {
+      return;
+    }
 
-  const rarityMessage =
-    rank != null ? `${rarityOrb} ${rarityClass} (${rank})` : "TBD";
-  const floorMessage = `📈 ◎${roundToDecimal(
-    parseInt(extra.stats.buyNowPriceNetFees, 10) / LAMPORTS_PER_SOL,
-    2
-  )} floor\n`;
+    if (!seenTransactions.claim(transaction)) {
+      console.log(`Skipping already announced tx ${transaction.tx.txId}`);
+      return;
+    }
+
+    const { collection } = route;
 
-  const faction =
-    transaction.mint.attributes.find((attr) => attr.trait_type === "Faction")
-      ?.value || "";
+    logTransactionToConsole(kind, transaction);
 
-  const factionMessage = faction ? `👥 ${faction}\n` : "";
+    let event: NotificationEvent;
 
-  const message = `😲 ${nftName} SOLD for ◎${solanaPrice}\n${usdMessage}${floorMessage}${rarityMessage}\n${factionMessage}\n→ ${marketplaceUrl}\n\n📝 https://xray.helius.xyz/tx/${txId}`;
+    try {
+      event = await createEvent(kind, transaction, collection);
+    } catch (err) {
+      // nothing was queued, a later frame or backfill may retry it
+      seenTransactions.release(transaction);
+      throw err;
+    }
 
-  let mediaIds: string[] = [];
+    for (const alert of getWalletAlerts(event, config.wallets)) {
+      console.log(`Watched wallet ${alert.wallet} is the ${alert.side}`);
 
-  try {
-    if (imageBuffer) {
-      const mediaId = await twitterClient.v1.uploadMedia(imageBuffer.buffer, {
-        mimeType: imageBuffer.fileType?.mime,
-      });
-      mediaIds = [mediaId];
+      queue.enqueue(
+        getNotifiers(route),
+        { type: "wallet", alert },
+        transaction.mint.imageUri
+      );
     }
-  } catch (err) {
-    console.error(err);
-  }
 
-  return twitterClient.v2.tweet(message, {
-    media: {
-      media_ids: mediaIds,
-    },
-  });
-}
+    if (!enabled) {
+      return;
+    }
 
-function logSaleToConsole(transaction: TensorTransaction) {
-  const nftName = transaction.mint.name;
-  const onchainId = transaction.mint.onchainId;
-  const imageUri = transaction.mint.imageUri;
-  const buyerId = transaction.tx.buyerId;
-  const sellerId = transaction.tx.sellerId;
+    if (kind === "sale") {
+      saleHistory.record(event);
+    }
 
-  const grossSaleAmount = transaction.tx.grossAmount;
+    if (kind === "sale" && collection.sweepWindowSeconds > 0) {
+      sweeps.add(event, collection.sweepWindowSeconds * 1000);
+    } else {
+      publishEvent(queue, route, event);
+    }
+  };
 
-  console.log(`New sale for ${nftName} (${onchainId})
-        Image: ${imageUri}
-        Buyer: ${buyerId}
-        Seller: ${sellerId}
-        Gross sale amount: ${grossSaleAmount}
-        `);
-}
+  if (env.REPLAY_FILE) {
+    const entries = await loadReplayFile(env.REPLAY_FILE);
+    console.log(`Replaying ${entries.length} transactions`);
 
-async function main() {
-  const env = cleanEnv(process.env, {
-    TENSOR_API_URL: str({
-      default: "https://api.tensor.so/graphql",
-    }),
-    TENSOR_API_KEY: nonEmptyStrValidator(),
-    DISCORD_WEBHOOKS: nonEmptyStrValidator(),
-    SLUGS: nonEmptyStrValidator(),
-    TWITTER_API_KEY: nonEmptyStrValidator(),
-    TWITTER_API_SECRET: nonEmptyStrValidator(),
-    TWITTER_ACCESS_TOKEN: nonEmptyStrValidator(),
-    TWITTER_ACCESS_TOKEN_SECRET: nonEmptyStrValidator(),
-  });
+    for (const { transaction, slug } of entries) {
+      try {
+        await handleTransaction(transaction, slug);
+      } catch (err) {
+        console.error(`Failed to replay tx ${transaction.tx.txId}`, err);
+      }
+    }
 
-  const discordWebhooks = env.DISCORD_WEBHOOKS.split(",").map(
-    (hookUrl) => new WebhookClient({ url: hookUrl })
+    // exits once held back sweeps and pending deliveries are done
+    return;
+  }
+
+  tensorService.on("transaction", (transaction, slug) =>
+    handleTransaction(transaction, slug).catch((err) =>
+      console.error(`Failed to handle tx ${transaction.tx.txId}`, err)
+    )
   );
 
-  const twitterClient = new TwitterApi({
-    appKey: env.TWITTER_API_KEY,
-    appSecret: env.TWITTER_API_SECRET,
-    accessToken: env.TWITTER_ACCESS_TOKEN,
-    accessSecret: env.TWITTER_ACCESS_TOKEN_SECRET,
-  });
+  if (env.SALE_HISTORY_PORT > 0) {
+    await new SaleHistoryServer(saleHistory, env.SALE_HISTORY_PORT).start();
+  }
 
-  const tensorService = new TensorService(
-    env.TENSOR_API_URL,
-    env.TENSOR_API_KEY
-  );
+  if (env.HEALTH_PORT > 0) {
+    await new HealthServer(tensorService, registry, {
+      port: env.HEALTH_PORT,
+      maxMessageAgeMs: env.HEALTH_MAX_MESSAGE_AGE_SECONDS * 1000,
+    }).start();
+  }
 
   await tensorService.connect();
 
-  for (const slug of env.SLUGS.split(",")) {
+  for (const slug of routes.keys()) {
     await tensorService.subscribeToSlug(slug);
   }
 
-  tensorService.on("transaction", async (transaction, slug) => {
-    const allowedTxTypes = ["SALE_BUY_NOW", "SALE_ACCEPT_BID"];
+  let bot: DiscordBot | null = null;
 
-    if (!allowedTxTypes.includes(transaction.tx.txType)) {
+  if (env.DISCORD_BOT_TOKEN && env.DRY_RUN) {
+    console.log("Dry run, not starting the Discord bot");
+  } else if (env.DISCORD_BOT_TOKEN) {
+    bot = new DiscordBot(env.DISCORD_BOT_TOKEN, env.DISCORD_BOT_GUILD_ID, {
+      tensorService,
+      collections: config.collections,
+      createEvent,
+    });
+
+    try {
+      await bot.start();
+    } catch (err) {
+      // the posts don't depend on it, keep running without commands
+      console.error("Failed to start the Discord bot", err);
+    }
+  }
+
+  const floorMonitor = new FloorMonitor(tensorService, (alert) => {
+    const route = routes.get(alert.slug);
+
+    if (!route) {
       return;
     }
 
-    const stats = await tensorService.getCollectionStats(slug);
-    const imageBuffer = await getImageBuffer(transaction.mint.imageUri);
+    const { collectionName } = route.collection.display;
+
+    console.log(`Floor alert for ${alert.slug}`, alert);
+
+    queue.enqueue(getNotifiers(route), {
+      type: "floor",
+      alert,
+      collectionName,
+    });
+  });
 
-    logSaleToConsole(transaction);
+  for (const [slug, route] of routes) {
+    if (route.collection.floorAlerts) {
+      floorMonitor.watch(slug, route.collection.floorAlerts);
+    }
+  }
+
+  const digests = new DigestScheduler(tensorService, saleHistory, (digest) => {
+    const route = routes.get(digest.slug);
+
+    if (!route) {
+      return;
+    }
+
+    const { collectionName } = route.collection.display;
+
+    console.log(`Posting ${digest.period} digest for ${digest.slug}`);
+
+    queue.enqueue(getNotifiers(route), {
+      type: "digest",
+      digest,
+      collectionName,
+    });
+  });
+
+  for (const [slug, route] of routes) {
+    if (route.collection.digests) {
+      digests.schedule(slug, route.collection.digests);
+    }
+  }
 
-    const { embed, attachment } = await createDiscordSaleEmbed(
-      transaction,
-      imageBuffer,
-      {
-        stats,
+  /**
+   * Switches to a new, already validated config. Everything that can fail is
+   * built before anything running is touched.
+   */
+  const applyConfig = async (next: AppConfig) => {
+    const built = buildRoutes(next.collections, env.DRY_RUN, notifiers);
+    const previousRoutes = routes;
+
+    config = next;
+    routes = built.routes;
+    queue.setNotifiers(built.sinks);
+
+    for (const [key, notifier] of notifiers) {
+      if (!built.notifiers.has(key)) {
+        notifier.destroy();
       }
-    );
+    }
 
-    for (const webhook of discordWebhooks) {
-      try {
-        let webhookPayload: WebhookMessageCreateOptions = {
-          embeds: [embed],
-        };
+    notifiers = built.notifiers;
+    bot?.setCollections(next.collections);
+
+    for (const slug of previousRoutes.keys()) {
+      if (!routes.has(slug)) {
+        tensorService.unsubscribeFromSlug(slug);
+        floorMonitor.unwatch(slug);
+        digests.unschedule(slug);
+      }
+    }
 
-        if (attachment) {
-          webhookPayload = { ...webhookPayload, files: [attachment] };
+    for (const [slug, route] of routes) {
+      const previous = previousRoutes.get(slug)?.collection;
+      const { floorAlerts, digests: digestConfig } = route.collection;
+
+      if (!previous) {
+        try {
+          await tensorService.subscribeToSlug(slug);
+        } catch (err) {
+          console.error(`Failed to subscribe to new slug ${slug}`, err);
         }
+      }
 
-        await webhook.send(webhookPayload);
-      } catch (err) {
-        console.error(err);
+      // only restarted when changed, that drops the floor history
+      if (
+        JSON.stringify(previous?.floorAlerts) !== JSON.stringify(floorAlerts)
+      ) {
+        if (floorAlerts) {
+          floorMonitor.watch(slug, floorAlerts);
+        } else {
+          floorMonitor.unwatch(slug);
+        }
       }
-    }
 
-    try {
-      await sendTwitterSaleTweet(twitterClient, transaction, imageBuffer, {
-        stats,
-      });
-    } catch (err) {
-      console.error(err);
+      if (JSON.stringify(previous?.digests) !== JSON.stringify(digestConfig)) {
+        if (digestConfig) {
+          digests.schedule(slug, digestConfig);
+        } else {
+          digests.unschedule(slug);
+        }
+      }
     }
-  });
+
+    console.log(
+      `Applied the new configuration with ${routes.size} collections`
+    );
+    logSinks(routes);
+  };
+
+  new ConfigWatcher(
+    () => {
+      if (env.CONFIG_FILE) {
+        return loadConfigFile(env.CONFIG_FILE);
+      }
+
+      // SLUGS and the sink variables may have changed in .env, read it
+      // again from scratch so removed variables are gone too
+      return loadConfigFromEnv({ ...readDotenv(), ...shellEnv });
+    },
+    applyConfig,
+    { path: env.CONFIG_WATCH ? env.CONFIG_FILE : "" }
+  ).start();
 }
 
 main().catch(console.error);
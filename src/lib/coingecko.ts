@@ -1,30 +1,75 @@
+import { apiRequestDuration } from "../metrics";
+import { PriceProvider, PriceTable, SOL_MINT } from "./prices";
+
 const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
-const CACHE = new Map();
-
-export async function getSimplePrice(
-  id: string,
-  vsCurrencies: string
-): Promise<{ [key: string]: { [key: string]: number } }> {
-  const url = `${COINGECKO_API_URL}/simple/price?ids=${id}&vs_currencies=${vsCurrencies}`;
-  const now = Date.now();
-
-  if (CACHE.has(url)) {
-    const cached = CACHE.get(url);
-    if (cached && cached.expires > now) {
-      return cached.data;
-    }
+
+/**
+ * SOL through the simple price endpoint, SPL tokens by their mint through the
+ * token price endpoint of the solana platform.
+ */
+export class CoinGeckoPriceProvider implements PriceProvider {
+  public readonly name = "coingecko";
+  private apiKey: string;
+
+  constructor(apiKey = "") {
+    this.apiKey = apiKey;
   }
 
-  const response = await fetch(url);
+  public async getPrices(
+    mints: string[],
+    currencies: string[]
+  ): Promise<PriceTable> {
+    const vsCurrencies = currencies.join(",");
+    const tokens = mints.filter((mint) => mint !== SOL_MINT);
+    const prices: PriceTable = {};
+
+    if (mints.includes(SOL_MINT)) {
+      const data = await this.get(
+        "simple price",
+        `/simple/price?ids=solana&vs_currencies=${vsCurrencies}`
+      );
+
+      if (data.solana) {
+        prices[SOL_MINT] = data.solana;
+      }
+    }
+
+    if (tokens.length > 0) {
+      const data = await this.get(
+        "token price",
+        `/simple/token_price/solana?contract_addresses=${tokens.join(
+          ","
+        )}&vs_currencies=${vsCurrencies}`
+      );
+
+      // keyed by the address as given, lowercased on some versions
+      for (const mint of tokens) {
+        const price = data[mint] ?? data[mint.toLowerCase()];
+
+        if (price) {
+          prices[mint] = price;
+        }
+      }
+    }
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ${url}`);
+    return prices;
   }
 
-  const data = await response.json();
-  const expires = now + 1000 * 60 * 5; // 5 minutes
+  private async get(operation: string, path: string) {
+    const url = `${COINGECKO_API_URL}${path}`;
 
-  CACHE.set(url, { data, expires });
+    const response = await apiRequestDuration.time(
+      { api: "coingecko", operation },
+      () =>
+        fetch(url, {
+          headers: this.apiKey ? { "x-cg-demo-api-key": this.apiKey } : {},
+        })
+    );
 
-  return data;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+
+    return (await response.json()) as PriceTable;
+  }
 }
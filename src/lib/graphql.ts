@@ -0,0 +1,256 @@
+import { apiRequestDuration } from "../metrics";
+import { SchemaMismatchError, Validator } from "./schema";
+
+export interface GraphQLError {
+  message: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A query or subscription together with the shape of the data it returns,
+ * so that results are typed and checked the same way over HTTP and the
+ * websocket.
+ */
+export interface GraphQLOperation<Variables, Data> {
+  // operationName sent to the server
+  name: string;
+  // used in logs, errors and the request duration metric
+  label: string;
+  query: string;
+  validate: Validator<Data>;
+  // only used to tie the variables to the operation
+  variables?: Variables;
+}
+
+export class GraphQLRequestError extends Error {
+  constructor(
+    message: string,
+    public operation: string,
+    public errors: GraphQLError[] = [],
+    public status: number | null = null
+  ) {
+    super(message);
+    this.name = "GraphQLRequestError";
+  }
+}
+
+// the API key is missing, invalid or lacks access
+export class GraphQLAuthError extends GraphQLRequestError {
+  constructor(...args: ConstructorParameters<typeof GraphQLRequestError>) {
+    super(...args);
+    this.name = "GraphQLAuthError";
+  }
+}
+
+// e.g. an unknown collection slug
+export class GraphQLNotFoundError extends GraphQLRequestError {
+  constructor(...args: ConstructorParameters<typeof GraphQLRequestError>) {
+    super(...args);
+    this.name = "GraphQLNotFoundError";
+  }
+}
+
+export class GraphQLRateLimitError extends GraphQLRequestError {
+  constructor(
+    message: string,
+    operation: string,
+    errors: GraphQLError[] = [],
+    status: number | null = null,
+    // from Retry-After, null when the server didn't say
+    public retryAfterMs: number | null = null
+  ) {
+    super(message, operation, errors, status);
+    this.name = "GraphQLRateLimitError";
+  }
+}
+
+// the server answered with data we don't understand, e.g. after an API change
+export class GraphQLSchemaError extends GraphQLRequestError {
+  constructor(operation: string, public mismatch: SchemaMismatchError) {
+    super(
+      `${operation} returned unexpected data, ${mismatch.message}`,
+      operation
+    );
+    this.name = "GraphQLSchemaError";
+  }
+}
+
+function getErrorCode(error: GraphQLError): string {
+  const extensions = error.extensions as { code?: unknown } | undefined;
+  return String(extensions?.code ?? "").toUpperCase();
+}
+
+/**
+ * Picks the error class from the HTTP status, the error codes in
+ * `extensions.code` or, as servers are inconsistent about those, the
+ * messages.
+ */
+export function createGraphQLError(
+  operation: string,
+  errors: GraphQLError[],
+  status: number | null = null
+): GraphQLRequestError {
+  const details = errors.map((error) => error.message).join("; ");
+  const message = `${operation} failed${status ? ` with ${status}` : ""}${
+    details ? `: ${details}` : ""
+  }`;
+
+  const matches = (codes: string[], pattern: RegExp) =>
+    errors.some(
+      (error) =>
+        codes.includes(getErrorCode(error)) || pattern.test(error.message)
+    );
+
+  if (
+    status === 401 ||
+    status === 403 ||
+    matches(
+      ["UNAUTHENTICATED", "FORBIDDEN"],
+      /unauthori[sz]ed|forbidden|api key/i
+    )
+  ) {
+    return new GraphQLAuthError(message, operation, errors, status);
+  }
+
+  if (
+    status === 429 ||
+    matches(
+      ["RATE_LIMITED", "TOO_MANY_REQUESTS"],
+      /rate limit|too many requests/i
+    )
+  ) {
+    return new GraphQLRateLimitError(message, operation, errors, status);
+  }
+
+  if (status === 404 || matches(["NOT_FOUND"], /not found|does not exist/i)) {
+    return new GraphQLNotFoundError(message, operation, errors, status);
+  }
+
+  return new GraphQLRequestError(message, operation, errors, status);
+}
+
+/**
+ * Checks a GraphQL result, from a response body or a subscription's next
+ * frame, and returns its data.
+ */
+export function parseResult<Variables, Data>(
+  operation: GraphQLOperation<Variables, Data>,
+  result: unknown
+): Data {
+  const { data, errors } = (result ?? {}) as {
+    data?: unknown;
+    errors?: GraphQLError[];
+  };
+
+  if (Array.isArray(errors) && errors.length > 0) {
+    throw createGraphQLError(operation.label, errors);
+  }
+
+  try {
+    return operation.validate(data, "data");
+  } catch (err) {
+    if (err instanceof SchemaMismatchError) {
+      throw new GraphQLSchemaError(operation.label, err);
+    }
+    throw err;
+  }
+}
+
+function getRetryAfterMs(headers: Headers): number | null {
+  const retryAfter = headers.get("retry-after");
+
+  if (!retryAfter) {
+    return null;
+  }
+
+  const seconds = Number(retryAfter);
+
+  return Number.isFinite(seconds)
+    ? seconds * 1000
+    : Math.max(0, Date.parse(retryAfter) - Date.now()) || null;
+}
+
+export class GraphQLClient {
+  private api: string;
+  private url: string;
+  private headers: { [key: string]: string };
+
+  constructor(api: string, url: string, headers: { [key: string]: string }) {
+    this.api = api;
+    this.url = url;
+    this.headers = headers;
+  }
+
+  public async request<Variables, Data>(
+    operation: GraphQLOperation<Variables, Data>,
+    variables: Variables
+  ): Promise<Data> {
+    const response = await apiRequestDuration.time(
+      { api: this.api, operation: operation.label },
+      () =>
+        fetch(this.url, {
+          method: "POST",
+          headers: { ...this.headers, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            operationName: operation.name,
+            variables,
+            query: operation.query,
+          }),
+        })
+    );
+
+    let body: unknown = null;
+
+    try {
+      body = JSON.parse(await response.text());
+    } catch (err) {
+      // error pages aren't JSON, the status says enough
+    }
+
+    if (!response.ok) {
+      const errors = (body as { errors?: GraphQLError[] } | null)?.errors;
+      const error = createGraphQLError(
+        operation.label,
+        Array.isArray(errors) ? errors : [],
+        response.status
+      );
+
+      if (error instanceof GraphQLRateLimitError) {
+        error.retryAfterMs = getRetryAfterMs(response.headers);
+      }
+
+      throw error;
+    }
+
+    if (body == null) {
+      throw new GraphQLRequestError(
+        `${operation.label} returned invalid JSON`,
+        operation.label,
+        [],
+        response.status
+      );
+    }
+
+    return parseResult(operation, body);
+  }
+
+  /**
+   * The graphql-transport-ws frame that starts a subscription.
+   */
+  public createSubscribeMessage<Variables, Data>(
+    id: string,
+    operation: GraphQLOperation<Variables, Data>,
+    variables: Variables
+  ) {
+    return {
+      id,
+      type: "subscribe",
+      payload: {
+        variables,
+        extensions: {},
+        operationName: operation.name,
+        query: operation.query,
+      },
+    };
+  }
+}
@@ -0,0 +1,42 @@
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public headers: Headers,
+    public body: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export async function postJson(
+  url: string,
+  payload: unknown,
+  headers: { [key: string]: string } = {}
+): Promise<Response> {
+  return postBody(url, JSON.stringify(payload), {
+    "Content-Type": "application/json",
+    ...headers,
+  });
+}
+
+export async function postBody(
+  url: string,
+  body: string | FormData,
+  headers: { [key: string]: string } = {}
+): Promise<Response> {
+  const response = await fetch(url, { method: "POST", headers, body });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => "");
+    throw new HttpError(
+      `POST ${new URL(url).host} failed with ${response.status}: ${text}`,
+      response.status,
+      response.headers,
+      text
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,94 @@
+import { fileTypeFromBuffer } from "file-type";
+import sharp from "sharp";
+
+export interface ImageBuffer {
+  buffer: Buffer;
+  fileType: { ext: string; mime: string } | undefined;
+  // a rendered sale card, shown full size instead of as a thumbnail
+  card?: boolean;
+}
+
+// Twitter's limit for images uploaded in one request, Discord's is higher
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_SIZE = 2048;
+
+// formats every sink takes as they are, as long as they are small enough
+const PASSTHROUGH_EXTENSIONS = ["jpg", "png", "gif"];
+
+export async function getImageBuffer(
+  imageUri: string
+): Promise<ImageBuffer | null> {
+  try {
+    const response = await fetch(imageUri);
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const arrayBuffer = await response.arrayBuffer();
+
+    const buffer = Buffer.from(arrayBuffer);
+
+    const fileType = await fileTypeFromBuffer(buffer);
+
+    return { buffer, fileType };
+  } catch (err) {
+    return null;
+  }
+}
+
+function isSvg(buffer: Buffer): boolean {
+  const head = buffer.subarray(0, 1024).toString("utf8").trimStart();
+  return (
+    head.startsWith("<svg") || (head.startsWith("<?xml") && /<svg/.test(head))
+  );
+}
+
+/**
+ * Converts images the sinks reject: SVG and formats like WebP become PNG,
+ * anything over the upload limit is scaled down, animated GIFs lose their
+ * animation in the process. Null when the image can't be decoded.
+ */
+export async function normalizeImage(
+  image: ImageBuffer
+): Promise<ImageBuffer | null> {
+  const { buffer, fileType } = image;
+
+  if (
+    fileType &&
+    PASSTHROUGH_EXTENSIONS.includes(fileType.ext) &&
+    buffer.length <= MAX_IMAGE_BYTES
+  ) {
+    return image;
+  }
+
+  if (!fileType && !isSvg(buffer)) {
+    return null;
+  }
+
+  try {
+    const resized = sharp(buffer).resize(MAX_IMAGE_SIZE, MAX_IMAGE_SIZE, {
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+    // keeps transparency, unless it is a photo or too big as a PNG
+    const png =
+      fileType?.ext === "jpg" ? null : await resized.clone().png().toBuffer();
+
+    if (png && png.length <= MAX_IMAGE_BYTES) {
+      return { buffer: png, fileType: { ext: "png", mime: "image/png" } };
+    }
+
+    return {
+      buffer: await resized
+        .flatten({ background: "#ffffff" })
+        .jpeg({ quality: 85 })
+        .toBuffer(),
+      fileType: { ext: "jpg", mime: "image/jpeg" },
+    };
+  } catch (err) {
+    console.error("Failed to convert image", err);
+    return null;
+  }
+}
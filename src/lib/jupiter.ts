@@ -0,0 +1,49 @@
+import { apiRequestDuration } from "../metrics";
+import { PriceProvider, PriceTable } from "./prices";
+
+const JUPITER_PRICE_API_URL = "https://api.jup.ag/price/v2";
+
+interface JupiterPriceResponse {
+  data: { [mint: string]: { price: string } | null };
+}
+
+/**
+ * Jupiter's price API, quoted against USDC, so it only knows USD. Useful as
+ * a fallback and for tokens CoinGecko doesn't list.
+ */
+export class JupiterPriceProvider implements PriceProvider {
+  public readonly name = "jupiter";
+
+  public async getPrices(
+    mints: string[],
+    currencies: string[]
+  ): Promise<PriceTable> {
+    if (!currencies.includes("usd") || mints.length === 0) {
+      return {};
+    }
+
+    const url = `${JUPITER_PRICE_API_URL}?ids=${mints.join(",")}`;
+
+    const response = await apiRequestDuration.time(
+      { api: "jupiter", operation: "price" },
+      () => fetch(url)
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${url}: ${response.status}`);
+    }
+
+    const { data } = (await response.json()) as JupiterPriceResponse;
+    const prices: PriceTable = {};
+
+    for (const mint of mints) {
+      const price = Number(data?.[mint]?.price);
+
+      if (Number.isFinite(price) && price > 0) {
+        prices[mint] = { usd: price };
+      }
+    }
+
+    return prices;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Minimal Prometheus metrics: counters, gauges and histograms with labels,
+ * rendered in the text exposition format.
+ */
+
+type Labels = { [name: string]: string };
+
+interface Metric {
+  render(): string[];
+}
+
+function formatLabels(labels: Labels, extra: Labels = {}): string {
+  const entries = Object.entries({ ...labels, ...extra });
+
+  if (entries.length === 0) {
+    return "";
+  }
+
+  const escape = (value: string) =>
+    value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+  return `{${entries
+    .map(([name, value]) => `${name}="${escape(value)}"`)
+    .join(",")}}`;
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    private type: string
+  ) {}
+
+  protected get(labels: Labels, create: () => T): T {
+    const key = formatLabels(labels);
+
+    if (!this.series.has(key)) {
+      this.series.set(key, { labels, value: create() });
+    }
+
+    return this.series.get(key)!.value;
+  }
+
+  public render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...Array.from(this.series.values()).flatMap(({ labels, value }) =>
+        this.renderSeries(labels, value)
+      ),
+    ];
+  }
+
+  protected abstract renderSeries(labels: Labels, value: T): string[];
+}
+
+export class Counter extends LabeledMetric<{ count: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  public inc(labels: Labels = {}, amount = 1): void {
+    this.get(labels, () => ({ count: 0 })).count += amount;
+  }
+
+  protected renderSeries(labels: Labels, value: { count: number }) {
+    return [`${this.name}${formatLabels(labels)} ${value.count}`];
+  }
+}
+
+export class Gauge extends LabeledMetric<{ value: number }> {
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.get(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected renderSeries(labels: Labels, value: { value: number }) {
+    return [`${this.name}${formatLabels(labels)} ${value.value}`];
+  }
+}
+
+interface HistogramValue {
+  // cumulative count per bucket, same order as the buckets
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends LabeledMetric<HistogramValue> {
+  constructor(
+    name: string,
+    help: string,
+    private buckets = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  ) {
+    super(name, help, "histogram");
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const series = this.get(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Runs `fn` and records how long it took in seconds, whether or not it
+   * threw.
+   */
+  public async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const start = performance.now();
+
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - start) / 1000);
+    }
+  }
+
+  protected renderSeries(labels: Labels, value: HistogramValue) {
+    return [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels(labels, {
+            le: `${bound}`,
+          })} ${value.buckets[index]}`
+      ),
+      `${this.name}_bucket${formatLabels(labels, { le: "+Inf" })} ${
+        value.count
+      }`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ];
+  }
+}
+
+export class Registry {
+  private metrics: Metric[] = [];
+
+  public register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  public render(): string {
+    return `${this.metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Price sources for the tokens sales are paid in, plus the tokens the bot
+ * knows how to convert.
+ */
+
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface TokenInfo {
+  mint: string;
+  symbol: string;
+  decimals: number;
+}
+
+export const SOL_TOKEN: TokenInfo = {
+  mint: SOL_MINT,
+  symbol: "SOL",
+  decimals: 9,
+};
+
+const KNOWN_TOKENS: TokenInfo[] = [
+  SOL_TOKEN,
+  {
+    mint: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    symbol: "USDC",
+    decimals: 6,
+  },
+  {
+    mint: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    symbol: "USDT",
+    decimals: 6,
+  },
+  {
+    mint: "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+    symbol: "BONK",
+    decimals: 5,
+  },
+];
+
+// what Tensor reports as the unit of amounts paid in SOL
+const SOL_UNITS = ["", "SOL", "SOL_LAMPORT", "LAMPORT"];
+
+/**
+ * Token a transaction's grossAmount is denominated in, looked up by mint or
+ * symbol in the configured tokens first and the built-in ones second. Null
+ * for tokens we don't know the decimals of.
+ */
+export function getPaymentToken(
+  unit: string | null | undefined,
+  tokens: TokenInfo[]
+): TokenInfo | null {
+  if (SOL_UNITS.includes((unit ?? "").toUpperCase())) {
+    return SOL_TOKEN;
+  }
+
+  return (
+    [...tokens, ...KNOWN_TOKENS].find(
+      (token) =>
+        token.mint === unit ||
+        token.symbol.toUpperCase() === unit!.toUpperCase()
+    ) ?? null
+  );
+}
+
+// price of one token, by mint and lowercase currency code
+export type PriceTable = {
+  [mint: string]: { [currency: string]: number };
+};
+
+export interface PriceProvider {
+  readonly name: string;
+
+  /**
+   * Prices of the tokens in the given currencies. Tokens or currencies the
+   * provider doesn't know are left out, a failed request throws.
+   */
+  getPrices(mints: string[], currencies: string[]): Promise<PriceTable>;
+}
+
+export interface FiatPrice {
+  currency: string;
+  amount: number;
+}
+
+export function formatFiatPrices(prices: FiatPrice[], stale: boolean) {
+  const formatted = prices
+    .map(({ currency, amount }) =>
+      amount.toLocaleString("en-US", {
+        currency: currency.toUpperCase(),
+        style: "currency",
+      })
+    )
+    .join(" / ");
+
+  return formatted && stale ? `${formatted} (stale)` : formatted;
+}
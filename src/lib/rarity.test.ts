@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createTransaction } from "../testing";
+import {
+  DEFAULT_RARITY_CONFIG,
+  RarityConfig,
+  getRank,
+  getRarity,
+} from "./rarity";
+
+function mintRanked(ranks: { rarityRankTT?: number; rarityRankHR?: number }) {
+  return createTransaction({
+    mint: { rarityRankTT: null, rarityRankHR: null, ...ranks },
+  }).mint;
+}
+
+function tierOf(rank: number, numMints: number | null = 10_000) {
+  return getRarity(
+    mintRanked({ rarityRankTT: rank }),
+    numMints,
+    DEFAULT_RARITY_CONFIG
+  ).tier;
+}
+
+test("tiers go by the share of the supply ranked above", () => {
+  assert.equal(tierOf(1), "Mythic");
+  assert.equal(tierOf(100), "Mythic");
+  assert.equal(tierOf(101), "Legendary");
+  assert.equal(tierOf(1500), "Epic");
+  assert.equal(tierOf(3500), "Rare");
+  assert.equal(tierOf(6000), "Uncommon");
+  assert.equal(tierOf(10_000), "Common");
+});
+
+test("ranks beyond the supply are the most common tier", () => {
+  assert.equal(tierOf(12_000), "Common");
+});
+
+test("an unknown supply falls back to the configured one", () => {
+  const config: RarityConfig = {
+    ...DEFAULT_RARITY_CONFIG,
+    fallbackSupply: 100,
+  };
+  const mint = mintRanked({ rarityRankTT: 2 });
+
+  assert.equal(getRarity(mint, null, config).tier, "Legendary");
+  assert.equal(getRarity(mint, 0, config).tier, "Legendary");
+  assert.equal(getRarity(mint, 10_000, config).tier, "Mythic");
+});
+
+test("the first source with a rank is used", () => {
+  const mint = mintRanked({ rarityRankHR: 7 });
+
+  assert.equal(getRank(mint, ["TT"]), null);
+  assert.deepEqual(getRank(mint, ["TT", "HR"]), { rank: 7, source: "HR" });
+  assert.deepEqual(
+    getRank(mintRanked({ rarityRankTT: 3, rarityRankHR: 7 }), ["TT", "HR"]),
+    { rank: 3, source: "TT" }
+  );
+});
+
+test("unranked mints sort after every tier", () => {
+  const rarity = getRarity(mintRanked({}), 10_000, DEFAULT_RARITY_CONFIG);
+
+  assert.equal(rarity.tier, "Unranked");
+  assert.equal(rarity.rank, null);
+  assert.equal(rarity.tierIndex, DEFAULT_RARITY_CONFIG.tiers.length);
+});
+
+test("tier indexes order tiers from rarest", () => {
+  const indexes = [1, 200, 1200, 9000].map(
+    (rank) =>
+      getRarity(
+        mintRanked({ rarityRankTT: rank }),
+        10_000,
+        DEFAULT_RARITY_CONFIG
+      ).tierIndex
+  );
+
+  assert.deepEqual(indexes, [0, 1, 2, 5]);
+});
@@ -0,0 +1,119 @@
+import { TensorTransaction } from "../services/TensorService";
+
+export type RankSource = "TT" | "TTStat" | "HR" | "Team" | "Stat" | "TN";
+
+export const RANK_SOURCES: RankSource[] = [
+  "TT",
+  "TTStat",
+  "HR",
+  "Team",
+  "Stat",
+  "TN",
+];
+
+const RANK_FIELDS: {
+  [source in RankSource]: keyof TensorTransaction["mint"];
+} = {
+  TT: "rarityRankTT",
+  TTStat: "rarityRankTTStat",
+  HR: "rarityRankHR",
+  Team: "rarityRankTeam",
+  Stat: "rarityRankStat",
+  TN: "rarityRankTN",
+};
+
+export interface RarityTierConfig {
+  name: string;
+  // mints ranked within this percentage of the supply get the tier
+  topPercent: number;
+  color: number;
+  orb: string;
+}
+
+export interface RarityConfig {
+  // the first source with a rank is used
+  rankSources: RankSource[];
+  // ordered from rarest to most common
+  tiers: RarityTierConfig[];
+  unranked: { name: string; color: number; orb: string };
+  // used when the collection stats don't report the number of mints
+  fallbackSupply: number;
+}
+
+export const DEFAULT_RARITY_CONFIG: RarityConfig = {
+  rankSources: ["TT"],
+  tiers: [
+    { name: "Mythic", topPercent: 1, color: 0xe74c3c, orb: "🔴" },
+    { name: "Legendary", topPercent: 5, color: 0xe67e22, orb: "🟠" },
+    { name: "Epic", topPercent: 15, color: 0x9b59b6, orb: "🟣" },
+    { name: "Rare", topPercent: 35, color: 0x3498db, orb: "🔵" },
+    { name: "Uncommon", topPercent: 60, color: 0x2ecc71, orb: "🟢" },
+    { name: "Common", topPercent: 100, color: 0x95a5a6, orb: "⚪️" },
+  ],
+  unranked: { name: "Unranked", color: 0x2f3136, orb: "⚫️" },
+  fallbackSupply: 10_000,
+};
+
+export interface Rarity {
+  tier: string;
+  orb: string;
+  color: number;
+  // null when no configured source has ranked the mint yet
+  rank: number | null;
+  source: RankSource | null;
+  // position in the tier list, unranked mints sort after every tier
+  tierIndex: number;
+}
+
+export function getRank(
+  mint: TensorTransaction["mint"],
+  sources: RankSource[]
+): { rank: number; source: RankSource } | null {
+  for (const source of sources) {
+    const rank = mint[RANK_FIELDS[source]];
+
+    if (typeof rank === "number" && rank > 0) {
+      return { rank, source };
+    }
+  }
+
+  return null;
+}
+
+export function getRarity(
+  mint: TensorTransaction["mint"],
+  numMints: number | null | undefined,
+  config: RarityConfig
+): Rarity {
+  const ranked = getRank(mint, config.rankSources);
+
+  if (!ranked) {
+    return {
+      tier: config.unranked.name,
+      orb: config.unranked.orb,
+      color: config.unranked.color,
+      rank: null,
+      source: null,
+      tierIndex: config.tiers.length,
+    };
+  }
+
+  const rarityPercentage =
+    (ranked.rank / (numMints || config.fallbackSupply)) * 100;
+
+  const tierIndex = config.tiers.findIndex(
+    (tier) => rarityPercentage <= tier.topPercent
+  );
+  // ranks beyond the supply fall into the most common tier
+  const index = tierIndex === -1 ? config.tiers.length - 1 : tierIndex;
+  const tier = config.tiers[index];
+
+  return {
+    tier: tier.name,
+    orb: tier.orb,
+    color: tier.color,
+    rank: ranked.rank,
+    source: ranked.source,
+    tierIndex: index,
+  };
+}
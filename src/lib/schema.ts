@@ -0,0 +1,98 @@
+/**
+ * Minimal runtime validation for API payloads. A validator checks a value
+ * against the shape we rely on and returns it typed, or throws a
+ * SchemaMismatchError saying where it differs.
+ */
+
+export class SchemaMismatchError extends Error {
+  constructor(
+    public path: string,
+    public expected: string,
+    public received: unknown
+  ) {
+    super(
+      `${path}: expected ${expected}, got ${
+        received === null
+          ? "null"
+          : Array.isArray(received)
+          ? "array"
+          : typeof received
+      }`
+    );
+    this.name = "SchemaMismatchError";
+  }
+}
+
+export type Validator<T> = (value: unknown, path: string) => T;
+
+export const string: Validator<string> = (value, path) => {
+  if (typeof value !== "string") {
+    throw new SchemaMismatchError(path, "a string", value);
+  }
+  return value;
+};
+
+export const number: Validator<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new SchemaMismatchError(path, "a number", value);
+  }
+  return value;
+};
+
+/**
+ * Amounts and timestamps come as strings or numbers depending on the field
+ * and the API version.
+ */
+export const stringOrNumber: Validator<string | number> = (value, path) => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new SchemaMismatchError(path, "a string or number", value);
+  }
+  return value;
+};
+
+export function nullable<T>(validate: Validator<T>): Validator<T | null> {
+  return (value, path) => (value == null ? null : validate(value, path));
+}
+
+export function array<T>(validate: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaMismatchError(path, "an array", value);
+    }
+    return value.map((item, index) => validate(item, `${path}[${index}]`));
+  };
+}
+
+/**
+ * Checks the listed fields, anything else on the object is dropped.
+ */
+export function object<T>(shape: {
+  [K in keyof T]: Validator<T[K]>;
+}): Validator<T> {
+  return (value, path) => {
+    if (value == null || typeof value !== "object" || Array.isArray(value)) {
+      throw new SchemaMismatchError(path, "an object", value);
+    }
+
+    const result = {} as T;
+
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key](
+        (value as Record<string, unknown>)[key],
+        `${path}.${key}`
+      );
+    }
+
+    return result;
+  };
+}
+
+/**
+ * Runs a validator and converts the result, e.g. to fill in defaults.
+ */
+export function map<T, U>(
+  validate: Validator<T>,
+  convert: (value: T) => U
+): Validator<U> {
+  return (value, path) => convert(validate(value, path));
+}
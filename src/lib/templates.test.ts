@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  TemplateError,
+  getTemplateNames,
+  parseTemplate,
+  renderTemplate,
+} from "./templates";
+
+function render(template: string, values: { [name: string]: string | null }) {
+  return renderTemplate(template, (name) => values[name]);
+}
+
+test("values are filled in", () => {
+  assert.equal(
+    render("{name} sold for {price}", { name: "Tensorian #1", price: "◎2" }),
+    "Tensorian #1 sold for ◎2"
+  );
+});
+
+test("missing values render empty or as their fallback", () => {
+  assert.equal(render("rank {rank}!", {}), "rank !");
+  assert.equal(render("rank {rank|TBD}", {}), "rank TBD");
+  assert.equal(render("rank {rank|TBD}", { rank: "" }), "rank TBD");
+  assert.equal(render("rank {rank|TBD}", { rank: "12" }), "rank 12");
+});
+
+test("sections render only when their value is there", () => {
+  const template = "{name}{#rank} (rank {rank}){/rank}";
+
+  assert.equal(render(template, { name: "a", rank: "5" }), "a (rank 5)");
+  assert.equal(render(template, { name: "a", rank: null }), "a");
+});
+
+test("inverted sections render only when their value is missing", () => {
+  const template = "{#rank}rank {rank}{/rank}{^rank}unranked{/rank}";
+
+  assert.equal(render(template, { rank: "5" }), "rank 5");
+  assert.equal(render(template, {}), "unranked");
+});
+
+test("sections nest", () => {
+  const template = "{#buyer}{buyer}{#seller} from {seller}{/seller}{/buyer}";
+
+  assert.equal(render(template, { buyer: "b", seller: "s" }), "b from s");
+  assert.equal(render(template, { buyer: "b" }), "b");
+  assert.equal(render(template, { seller: "s" }), "");
+});
+
+test("names take a colon argument", () => {
+  assert.equal(
+    renderTemplate("{trait:Faction|none}", (name) =>
+      name === "trait:Faction" ? "Tensorians" : null
+    ),
+    "Tensorians"
+  );
+});
+
+test("text that isn't a tag is kept", () => {
+  assert.equal(
+    render("{} {1} { name } \n", { name: "x" }),
+    "{} {1} { name } \n"
+  );
+});
+
+test("every name used is listed", () => {
+  assert.deepEqual(
+    getTemplateNames(parseTemplate("{a}{#b}{c|x}{^d}{e}{/d}{/b}")),
+    ["a", "b", "c", "d", "e"]
+  );
+});
+
+test("unbalanced sections are rejected", () => {
+  assert.throws(() => parseTemplate("{#rank}rank"), {
+    name: "TemplateError",
+    message: "{#rank} is never closed",
+  });
+  assert.throws(() => parseTemplate("rank{/rank}"), TemplateError);
+  assert.throws(() => parseTemplate("{#a}{#b}{/a}{/b}"), {
+    message: "unexpected {/a}",
+  });
+});
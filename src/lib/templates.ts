@@ -0,0 +1,122 @@
+/**
+ * Tiny placeholder templates for messages:
+ *
+ *   {name}              value of `name`
+ *   {rank|TBD}          value of `rank`, or "TBD" when it is missing
+ *   {#rank}...{/rank}   rendered only when `rank` has a value
+ *   {^rank}...{/rank}   rendered only when `rank` is missing
+ *
+ * Names may contain a colon argument, e.g. {trait:Faction}.
+ */
+
+type TemplateNode =
+  | { type: "text"; text: string }
+  | { type: "value"; name: string; fallback: string }
+  | {
+      type: "section";
+      name: string;
+      inverted: boolean;
+      children: TemplateNode[];
+    };
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const TAG_PATTERN = /\{([#^/]?)([A-Za-z]+(?::[^{}|]+)?)(?:\|([^{}]*))?\}/g;
+
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { name: string; children: TemplateNode[] }[] = [
+    { name: "", children: root },
+  ];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, prefix, name, fallback] = match;
+    const current = stack[stack.length - 1];
+
+    if (match.index! > lastIndex) {
+      current.children.push({
+        type: "text",
+        text: template.slice(lastIndex, match.index),
+      });
+    }
+    lastIndex = match.index! + tag.length;
+
+    if (prefix === "#" || prefix === "^") {
+      const section: TemplateNode = {
+        type: "section",
+        name,
+        inverted: prefix === "^",
+        children: [],
+      };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (prefix === "/") {
+      if (stack.length === 1 || current.name !== name) {
+        throw new TemplateError(`unexpected {/${name}}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: "value", name, fallback: fallback ?? "" });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new TemplateError(
+      `{#${stack[stack.length - 1].name}} is never closed`
+    );
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: "text", text: template.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+export function getTemplateNames(nodes: TemplateNode[]): string[] {
+  return nodes.flatMap((node) => {
+    switch (node.type) {
+      case "value":
+        return [node.name];
+      case "section":
+        return [node.name, ...getTemplateNames(node.children)];
+      default:
+        return [];
+    }
+  });
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  lookup: (name: string) => string | null | undefined
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.text;
+        case "value":
+          return lookup(node.name) || node.fallback;
+        case "section": {
+          const hasValue = Boolean(lookup(node.name));
+          return hasValue !== node.inverted
+            ? renderNodes(node.children, lookup)
+            : "";
+        }
+      }
+    })
+    .join("");
+}
+
+export function renderTemplate(
+  template: string,
+  lookup: (name: string) => string | null | undefined
+): string {
+  return renderNodes(parseTemplate(template), lookup);
+}
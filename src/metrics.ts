@@ -0,0 +1,64 @@
+import { Counter, Gauge, Histogram, Registry } from "./lib/metrics";
+
+export const registry = new Registry();
+
+export const transactionsReceived = registry.register(
+  new Counter(
+    "tensor_transactions_received_total",
+    "Transactions received from Tensor, by slug, source and tx type"
+  )
+);
+
+export const notificationsSent = registry.register(
+  new Counter("notifications_sent_total", "Messages delivered, by sink")
+);
+
+export const notificationsFailed = registry.register(
+  new Counter("notifications_failed_total", "Failed delivery attempts, by sink")
+);
+
+export const notificationsDeadLettered = registry.register(
+  new Counter(
+    "notifications_dead_lettered_total",
+    "Messages given up on, by sink"
+  )
+);
+
+export const deliveryQueuePending = registry.register(
+  new Gauge("delivery_queue_pending", "Messages waiting to be delivered")
+);
+
+export const tensorReconnects = registry.register(
+  new Counter(
+    "tensor_reconnects_total",
+    "Reconnect attempts to the Tensor websocket"
+  )
+);
+
+export const tensorConnections = registry.register(
+  new Gauge(
+    "tensor_connections",
+    "Pooled Tensor websocket connections, by state"
+  )
+);
+
+export const tensorSlugsMoved = registry.register(
+  new Counter(
+    "tensor_slugs_moved_total",
+    "Slugs moved off a connection that stayed down"
+  )
+);
+
+export const apiRequestDuration = registry.register(
+  new Histogram(
+    "api_request_duration_seconds",
+    "Latency of HTTP API calls, by api and operation"
+  )
+);
+
+export const priceProviderFailures = registry.register(
+  new Counter(
+    "price_provider_failures_total",
+    "Failed price lookups, by provider"
+  )
+);
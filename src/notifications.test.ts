@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getNotificationKind } from "./notifications";
+import { createEvent, createTransaction } from "./testing";
+import { createTweetText } from "./twitter";
+
+function ofType(txType: string) {
+  return createTransaction({ tx: { txType } });
+}
+
+test("transaction types map to notification kinds", () => {
+  assert.equal(getNotificationKind("SALE_BUY_NOW"), "sale");
+  assert.equal(getNotificationKind("SALE_ACCEPT_BID"), "sale");
+  assert.equal(getNotificationKind("LIST"), "listing");
+  assert.equal(getNotificationKind("DELIST"), "delisting");
+  assert.equal(getNotificationKind("ADJUST_PRICE"), "priceChange");
+  assert.equal(getNotificationKind("PLACE_BID"), "bid");
+  assert.equal(getNotificationKind("ADJUST_BID"), "bid");
+  assert.equal(getNotificationKind("SWAP_BUY_NFT"), null);
+});
+
+test("each kind has its own headline", async () => {
+  const headlines = await Promise.all(
+    ["SALE_BUY_NOW", "LIST", "ADJUST_PRICE", "PLACE_BID", "DELIST"].map(
+      async (txType) =>
+        createTweetText(await createEvent(ofType(txType))).split("\n")[0]
+    )
+  );
+
+  assert.deepEqual(headlines, [
+    "😲 Tensorian #1 SOLD for ◎2",
+    "📋 Tensorian #1 listed for ◎2",
+    "✏️ Tensorian #1 price changed to ◎2",
+    "🤝 New ◎2 bid on Tensorian #1",
+    "❌ Tensorian #1 delisted",
+  ]);
+});
+
+test("listings show how far they are from the floor", async () => {
+  const event = await createEvent(ofType("LIST"), {
+    floorLamports: "1600000000",
+  });
+
+  assert.equal(event.floorDifference, 25);
+  assert.match(createTweetText(event), /📈 25% above floor \(◎1\.6\)/);
+});
+
+test("delistings carry no price, floor or transaction link", async () => {
+  const text = createTweetText(
+    await createEvent(ofType("DELIST"), { floorLamports: "1600000000" })
+  );
+
+  assert.doesNotMatch(text, /💵|📈|xray/);
+  assert.match(text, /→ https:\/\/www\.tensor\.trade\/item\/mint$/);
+});
+
+test("only sales link the transaction", async () => {
+  const sale = createTweetText(await createEvent(ofType("SALE_BUY_NOW")));
+  const bid = createTweetText(await createEvent(ofType("PLACE_BID")));
+
+  assert.match(sale, /📝 https:\/\/xray\.helius\.xyz\/tx\/tx-id$/);
+  assert.doesNotMatch(bid, /xray/);
+});
@@ -0,0 +1,520 @@
+import { DisplayOptions, TemplateConfig, WalletRegistry } from "./config";
+import { Rarity, RarityConfig, getRarity } from "./lib/rarity";
+import {
+  FiatPrice,
+  SOL_MINT,
+  SOL_TOKEN,
+  TokenInfo,
+  formatFiatPrices,
+  getPaymentToken,
+} from "./lib/prices";
+import PriceOracle from "./services/PriceOracle";
+import { SaleHistoryRecord } from "./services/SaleHistory";
+import { TensorTransaction } from "./services/TensorService";
+import { roundToDecimal } from "./utils";
+
+export const LAMPORTS_PER_SOL = 1_000_000_000;
+
+export type NotificationKind =
+  | "sale"
+  | "listing"
+  | "delisting"
+  | "priceChange"
+  | "bid";
+
+export const NOTIFICATION_KINDS: NotificationKind[] = [
+  "sale",
+  "listing",
+  "delisting",
+  "priceChange",
+  "bid",
+];
+
+const TX_TYPE_KINDS: { [txType: string]: NotificationKind } = {
+  SALE_BUY_NOW: "sale",
+  SALE_ACCEPT_BID: "sale",
+  LIST: "listing",
+  DELIST: "delisting",
+  ADJUST_PRICE: "priceChange",
+  PLACE_BID: "bid",
+  ADJUST_BID: "bid",
+};
+
+export function getNotificationKind(txType: string): NotificationKind | null {
+  return TX_TYPE_KINDS[txType] ?? null;
+}
+
+export interface CollectionStats {
+  // null while nothing is listed
+  buyNowPriceNetFees: string | null;
+  // null when unknown, rarity then falls back to the configured supply
+  numMints: number | null;
+}
+
+/**
+ * Everything a sink needs to render a transaction, computed once so that
+ * every channel shows the same numbers.
+ */
+export interface NotificationEvent {
+  kind: NotificationKind;
+  slug: string;
+  transaction: TensorTransaction;
+  display: DisplayOptions;
+  templates: TemplateConfig;
+  // the amount in SOL, converted when paid in another token, 0 when unknown
+  solPrice: number;
+  // what the buyer actually paid in
+  paymentSymbol: string;
+  paymentAmount: number;
+  // null when no price source knows the token
+  usdPrice: number | null;
+  // in the collection's display currencies, as far as they are known
+  fiatPrices: FiatPrice[];
+  // the fiat prices are the last known ones because the sources failed
+  priceStale: boolean;
+  formattedFiatPrice: string;
+  floorPrice: number;
+  // how far the price is above (positive) or below the floor, in percent
+  floorDifference: number | null;
+  rarity: Rarity;
+  traitValue: string;
+  // from the wallet registry, null for unknown wallets
+  buyerLabel: string | null;
+  sellerLabel: string | null;
+}
+
+/**
+ * Several sales by one buyer in the same collection, posted as one message.
+ */
+export interface SweepEvent {
+  slug: string;
+  buyerId: string;
+  buyerLabel: string | null;
+  events: NotificationEvent[];
+  totalSol: number;
+  totalUsd: number | null;
+  // only the currencies every sale has a price in
+  totalFiat: FiatPrice[];
+  formattedTotalFiat: string;
+}
+
+export function createSweepEvent(events: NotificationEvent[]): SweepEvent {
+  const totalSol = roundToDecimal(
+    events.reduce((sum, event) => sum + event.solPrice, 0),
+    2
+  );
+
+  const totalUsd = events.every((event) => event.usdPrice != null)
+    ? events.reduce((sum, event) => sum + event.usdPrice!, 0)
+    : null;
+
+  const totalFiat: FiatPrice[] = [];
+
+  for (const { currency } of events[0].fiatPrices) {
+    const amounts = events.map(
+      (event) =>
+        event.fiatPrices.find((price) => price.currency === currency)?.amount
+    );
+
+    if (amounts.every((amount): amount is number => amount != null)) {
+      totalFiat.push({
+        currency,
+        amount: amounts.reduce((sum, amount) => sum + amount, 0),
+      });
+    }
+  }
+
+  return {
+    slug: events[0].slug,
+    buyerId: events[0].transaction.tx.buyerId,
+    buyerLabel: events[0].buyerLabel,
+    events,
+    totalSol,
+    totalUsd,
+    totalFiat,
+    formattedTotalFiat: formatFiatPrices(
+      totalFiat,
+      events.some((event) => event.priceStale)
+    ),
+  };
+}
+
+export interface FloorAlert {
+  slug: string;
+  // "percent" when it moved within the window, "threshold" when it crossed one
+  reason: "percent" | "threshold";
+  direction: "up" | "down";
+  previousFloor: number;
+  currentFloor: number;
+  changePercent: number;
+  windowMinutes?: number;
+  threshold?: number;
+}
+
+export function formatFloorAlert(alert: FloorAlert, collectionName: string) {
+  const change = `${alert.changePercent > 0 ? "+" : ""}${roundToDecimal(
+    alert.changePercent,
+    1
+  )}%`;
+  const from = `◎${roundToDecimal(alert.previousFloor, 2)}`;
+  const to = `◎${roundToDecimal(alert.currentFloor, 2)}`;
+
+  if (alert.reason === "threshold") {
+    return `${collectionName} floor ${
+      alert.direction === "up" ? "rose above" : "fell below"
+    } ◎${alert.threshold}: ${from} → ${to}`;
+  }
+
+  return `${collectionName} floor ${
+    alert.direction === "up" ? "up" : "down"
+  } ${change} in ${alert.windowMinutes}m: ${from} → ${to}`;
+}
+
+/**
+ * A watched wallet bought or sold in one of the monitored collections.
+ */
+export interface WalletAlert {
+  wallet: string;
+  label: string | null;
+  side: "buyer" | "seller";
+  event: NotificationEvent;
+}
+
+/**
+ * Label from the wallet registry, or the first four characters of the
+ * address like everywhere else.
+ */
+export function formatWalletName(wallet: string, label: string | null) {
+  return label ?? wallet.slice(0, 4);
+}
+
+function getWatchedSides(
+  transaction: TensorTransaction,
+  wallets: WalletRegistry
+) {
+  const { buyerId, sellerId } = transaction.tx;
+
+  const sides = [
+    { side: "buyer" as const, wallet: buyerId },
+    { side: "seller" as const, wallet: sellerId },
+  ];
+
+  return sides.filter(({ wallet }) => wallet && wallets[wallet]?.watch);
+}
+
+/**
+ * Whether a sale raises wallet alerts, known before the event is built.
+ */
+export function hasWatchedWallet(
+  transaction: TensorTransaction,
+  wallets: WalletRegistry
+): boolean {
+  return (
+    getNotificationKind(transaction.tx.txType) === "sale" &&
+    getWatchedSides(transaction, wallets).length > 0
+  );
+}
+
+export function getWalletAlerts(
+  event: NotificationEvent,
+  wallets: WalletRegistry
+): WalletAlert[] {
+  if (event.kind !== "sale") {
+    return [];
+  }
+
+  return getWatchedSides(event.transaction, wallets).map(
+    ({ side, wallet }) => ({
+      wallet,
+      label: wallets[wallet].label,
+      side,
+      event,
+    })
+  );
+}
+
+export function formatWalletAlert(alert: WalletAlert) {
+  return `${formatWalletName(alert.wallet, alert.label)} ${
+    alert.side === "buyer" ? "bought" : "sold"
+  } ${alert.event.transaction.mint.name} for ${formatPrice(alert.event)}`;
+}
+
+export type DigestPeriod = "daily" | "weekly";
+
+/**
+ * Recap of a collection over a day or a week. Volume, sales and floor come
+ * from Tensor's stats, the top sales and the rarest item from the sales the
+ * bot recorded itself.
+ */
+export interface Digest {
+  slug: string;
+  period: DigestPeriod;
+  volumeSol: number;
+  salesCount: number;
+  recordedSalesCount: number;
+  floorSol: number;
+  floorChangePercent: number | null;
+  topSales: SaleHistoryRecord[];
+  rarest: SaleHistoryRecord | null;
+}
+
+export function formatDigestTitle(digest: Digest, collectionName: string) {
+  return `${collectionName} ${digest.period} recap`;
+}
+
+export function formatDigestStats(digest: Digest) {
+  const change =
+    digest.floorChangePercent == null
+      ? ""
+      : ` (${digest.floorChangePercent > 0 ? "+" : ""}${roundToDecimal(
+          digest.floorChangePercent,
+          1
+        )}%)`;
+
+  return [
+    `Volume: ◎${roundToDecimal(digest.volumeSol, 2)}`,
+    `Sales: ${digest.salesCount}`,
+    `Floor: ◎${roundToDecimal(digest.floorSol, 2)}${change}`,
+  ];
+}
+
+export async function createNotificationEvent(
+  kind: NotificationKind,
+  transaction: TensorTransaction,
+  slug: string,
+  extra: {
+    stats: CollectionStats;
+    display: DisplayOptions;
+    templates: TemplateConfig;
+    rarity: RarityConfig;
+    wallets: WalletRegistry;
+    tokens: TokenInfo[];
+    prices: PriceOracle;
+  }
+): Promise<NotificationEvent> {
+  const grossAmount = parseInt(transaction.tx.grossAmount, 10) || 0;
+  const token = getPaymentToken(transaction.tx.grossAmountUnit, extra.tokens);
+
+  if (!token) {
+    console.warn(
+      `Unknown payment token ${transaction.tx.grossAmountUnit} for tx ${transaction.tx.txId}, add it to "tokens" in the config`
+    );
+  }
+
+  // without decimals the best we can show is the raw amount
+  const amount = token ? grossAmount / Math.pow(10, token.decimals) : 0;
+  const isSol = token === SOL_TOKEN;
+
+  // USD is always fetched, filters and the sale log rely on it
+  const currencies = Array.from(new Set(["usd", ...extra.display.currencies]));
+  const quotes = token
+    ? await extra.prices.getQuotes(
+        isSol ? [SOL_MINT] : [token.mint, SOL_MINT],
+        currencies
+      )
+    : {};
+  const tokenQuote = token ? quotes[token.mint] : undefined;
+  const solQuote = quotes[SOL_MINT];
+
+  let solPrice = 0;
+
+  if (isSol) {
+    solPrice = roundToDecimal(amount, 2);
+  } else if (tokenQuote?.prices.usd && solQuote?.prices.usd) {
+    solPrice = roundToDecimal(
+      (amount * tokenQuote.prices.usd) / solQuote.prices.usd,
+      2
+    );
+  }
+
+  const usdPrice =
+    tokenQuote?.prices.usd != null ? amount * tokenQuote.prices.usd : null;
+
+  const fiatPrices = extra.display.currencies
+    .filter((currency) => tokenQuote?.prices[currency] != null)
+    .map((currency) => ({
+      currency,
+      amount: amount * tokenQuote!.prices[currency],
+    }));
+
+  const priceStale = tokenQuote?.stale ?? false;
+
+  const floorPrice = roundToDecimal(
+    (parseInt(extra.stats.buyNowPriceNetFees ?? "", 10) || 0) /
+      LAMPORTS_PER_SOL,
+    2
+  );
+
+  const floorDifference =
+    floorPrice > 0 && solPrice > 0
+      ? roundToDecimal(((solPrice - floorPrice) / floorPrice) * 100, 1)
+      : null;
+
+  const rarity = getRarity(
+    transaction.mint,
+    extra.stats.numMints,
+    extra.rarity
+  );
+
+  const traitValue =
+    transaction.mint.attributes.find(
+      (attr) => attr.trait_type === extra.display.traitName
+    )?.value || "";
+
+  return {
+    kind,
+    slug,
+    transaction,
+    display: extra.display,
+    templates: extra.templates,
+    solPrice,
+    paymentSymbol: token?.symbol ?? transaction.tx.grossAmountUnit ?? "",
+    paymentAmount: token ? roundToDecimal(amount, 2) : grossAmount,
+    usdPrice,
+    fiatPrices,
+    priceStale,
+    formattedFiatPrice: formatFiatPrices(fiatPrices, priceStale),
+    floorPrice,
+    floorDifference,
+    rarity,
+    traitValue,
+    buyerLabel: extra.wallets[transaction.tx.buyerId]?.label ?? null,
+    sellerLabel: extra.wallets[transaction.tx.sellerId]?.label ?? null,
+  };
+}
+
+/**
+ * The price in what it was paid in, ◎ for SOL.
+ */
+export function formatPrice(event: NotificationEvent): string {
+  return event.paymentSymbol === SOL_TOKEN.symbol
+    ? `◎${event.solPrice}`
+    : `${event.paymentAmount.toLocaleString("en-US")} ${event.paymentSymbol}`;
+}
+
+export function formatRarity({ rarity }: { rarity: Rarity }): string {
+  const { orb, tier, rank } = rarity;
+  return rank != null ? `${orb} ${tier} (${rank})` : `${orb} ${tier}`;
+}
+
+export function formatFloorDifference(event: NotificationEvent): string {
+  if (event.floorDifference == null) {
+    return "";
+  }
+
+  if (event.floorDifference === 0) {
+    return "at floor";
+  }
+
+  return event.floorDifference > 0
+    ? `${event.floorDifference}% above floor`
+    : `${Math.abs(event.floorDifference)}% below floor`;
+}
+
+export const TEMPLATE_VARIABLES = [
+  "name",
+  "mint",
+  "slug",
+  "kind",
+  "source",
+  "txType",
+  "priceSol",
+  "priceUsd",
+  "priceFiat",
+  "price",
+  "floor",
+  "floorDiff",
+  "rarity",
+  "rarityTier",
+  "rarityOrb",
+  "rank",
+  "rankSource",
+  "buyer",
+  "seller",
+  "buyerAddress",
+  "sellerAddress",
+  "tensorUrl",
+  "txUrl",
+];
+
+export function isTemplateVariable(name: string): boolean {
+  return TEMPLATE_VARIABLES.includes(name) || /^trait:.+/.test(name);
+}
+
+/**
+ * Resolves a template placeholder, null means the value is missing so that
+ * conditional sections and fallbacks kick in.
+ */
+export function getTemplateValue(
+  event: NotificationEvent,
+  name: string
+): string | null {
+  const { tx, mint } = event.transaction;
+  const hasPrice = event.kind !== "delisting";
+
+  if (name.startsWith("trait:")) {
+    const traitType = name.slice("trait:".length);
+    return (
+      mint.attributes.find((attr) => attr.trait_type === traitType)?.value ||
+      null
+    );
+  }
+
+  switch (name) {
+    case "name":
+      return mint.name;
+    case "mint":
+      return mint.onchainId;
+    case "slug":
+      return event.slug;
+    case "kind":
+      return event.kind;
+    case "source":
+      return tx.source;
+    case "txType":
+      return tx.txType;
+    case "priceSol":
+      return hasPrice ? `${event.solPrice}` : null;
+    case "priceUsd":
+      return hasPrice && event.usdPrice != null
+        ? formatFiatPrices(
+            [{ currency: "usd", amount: event.usdPrice }],
+            event.priceStale
+          )
+        : null;
+    case "priceFiat":
+      return (hasPrice && event.formattedFiatPrice) || null;
+    case "price":
+      return hasPrice ? formatPrice(event) : null;
+    case "floor":
+      return event.floorPrice > 0 ? `${event.floorPrice}` : null;
+    case "floorDiff":
+      return formatFloorDifference(event) || null;
+    case "rarity":
+      return formatRarity(event);
+    case "rarityTier":
+      return event.rarity.tier;
+    case "rarityOrb":
+      return event.rarity.orb;
+    case "rank":
+      return event.rarity.rank != null ? `${event.rarity.rank}` : null;
+    case "rankSource":
+      return event.rarity.source;
+    case "buyer":
+      return tx.buyerId ? formatWalletName(tx.buyerId, event.buyerLabel) : null;
+    case "seller":
+      return tx.sellerId
+        ? formatWalletName(tx.sellerId, event.sellerLabel)
+        : null;
+    case "buyerAddress":
+      return tx.buyerId || null;
+    case "sellerAddress":
+      return tx.sellerId || null;
+    case "tensorUrl":
+      return `https://www.tensor.trade/item/${mint.onchainId}`;
+    case "txUrl":
+      return `https://xray.helius.xyz/tx/${tx.txId}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  AttachmentBuilder,
+  EmbedBuilder,
+  WebhookClient,
+  WebhookMessageCreateOptions,
+} from "discord.js";
+import { DiscordTemplates } from "../config";
+import {
+  createDiscordDigestEmbed,
+  createDiscordEmbed,
+  createDiscordFloorAlertEmbed,
+  createDiscordSweepEmbed,
+  createDiscordWalletAlertEmbed,
+} from "../discord";
+import { ImageBuffer } from "../lib/images";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import { Notifier, printDryRun } from "./Notifier";
+
+class DiscordNotifier implements Notifier {
+  public readonly name: string;
+  private webhook: WebhookClient;
+  private templates: DiscordTemplates;
+  private dryRun: boolean;
+
+  constructor(url: string, templates: DiscordTemplates, dryRun = false) {
+    this.webhook = new WebhookClient({ url });
+    this.templates = templates;
+    this.dryRun = dryRun;
+    this.name = `discord:${this.webhook.id}`;
+  }
+
+  public async notify(
+    event: NotificationEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    const template =
+      this.templates[event.kind] ?? event.templates.discord[event.kind];
+
+    await this.send(createDiscordEmbed(event, imageBuffer, template));
+  }
+
+  public async notifySweep(
+    sweep: SweepEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.send(createDiscordSweepEmbed(sweep, imageBuffer));
+  }
+
+  public async notifyFloorAlert(
+    alert: FloorAlert,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createDiscordFloorAlertEmbed(alert, collectionName));
+  }
+
+  public async notifyDigest(
+    digest: Digest,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createDiscordDigestEmbed(digest, collectionName));
+  }
+
+  public async notifyWalletAlert(
+    alert: WalletAlert,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.send(createDiscordWalletAlertEmbed(alert, imageBuffer));
+  }
+
+  public destroy(): void {
+    this.webhook.destroy();
+  }
+
+  private async send({
+    embed,
+    attachment,
+  }: {
+    embed: EmbedBuilder;
+    attachment: AttachmentBuilder | null;
+  }): Promise<void> {
+    if (this.dryRun) {
+      printDryRun(this.name, {
+        embeds: [embed.toJSON()],
+        files: attachment ? [attachment.name] : [],
+      });
+      return;
+    }
+
+    let webhookPayload: WebhookMessageCreateOptions = {
+      embeds: [embed],
+    };
+
+    if (attachment) {
+      webhookPayload = { ...webhookPayload, files: [attachment] };
+    }
+
+    await this.webhook.send(webhookPayload);
+  }
+}
+
+export default DiscordNotifier;
@@ -0,0 +1,55 @@
+import { ImageBuffer } from "../lib/images";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+
+/**
+ * Thrown by notifiers for messages that can never be delivered, e.g. a tweet
+ * over the length limit, so they aren't retried.
+ */
+export class UndeliverableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UndeliverableError";
+  }
+}
+
+/**
+ * Stands in for the actual request in dry run mode.
+ */
+export function printDryRun(name: string, payload: unknown): void {
+  console.log(
+    `[dry run] ${name}\n${
+      typeof payload === "string" ? payload : JSON.stringify(payload, null, 2)
+    }`
+  );
+}
+
+/**
+ * An output channel for announcements. Implementations render the normalized
+ * event in their own format and throw if delivery failed.
+ */
+export interface Notifier {
+  // identifies the sink in logs, never contains credentials
+  readonly name: string;
+  notify(
+    event: NotificationEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void>;
+  notifySweep(
+    sweep: SweepEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void>;
+  notifyFloorAlert(alert: FloorAlert, collectionName: string): Promise<void>;
+  notifyDigest(digest: Digest, collectionName: string): Promise<void>;
+  notifyWalletAlert(
+    alert: WalletAlert,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void>;
+  // releases the client once the sink is no longer configured
+  destroy(): void;
+}
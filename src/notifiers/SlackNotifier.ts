@@ -0,0 +1,102 @@
+import { TextTemplates } from "../config";
+import { ImageBuffer } from "../lib/images";
+import { postJson } from "../lib/http";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import {
+  createDigestText,
+  createEventText,
+  createFloorAlertText,
+  createSweepTweetText,
+  createWalletAlertText,
+} from "../twitter";
+import { Notifier, printDryRun } from "./Notifier";
+
+/**
+ * Posts to a Slack incoming webhook. Slack can't take uploads there, so the
+ * image is linked by url instead of the downloaded buffer.
+ */
+class SlackNotifier implements Notifier {
+  public readonly name: string;
+  private url: string;
+  private templates: TextTemplates;
+  private dryRun: boolean;
+
+  constructor(url: string, templates: TextTemplates, dryRun = false) {
+    this.url = url;
+    this.templates = templates;
+    this.dryRun = dryRun;
+    this.name = `slack:${url.slice(-4)}`;
+  }
+
+  public async notify(event: NotificationEvent): Promise<void> {
+    const { mint } = event.transaction;
+    const template =
+      this.templates[event.kind] ?? event.templates.slack[event.kind];
+
+    await this.send(createEventText(event, template), mint.imageUri, mint.name);
+  }
+
+  public async notifySweep(sweep: SweepEvent): Promise<void> {
+    const { mint } = sweep.events[0].transaction;
+    await this.send(createSweepTweetText(sweep), mint.imageUri, mint.name);
+  }
+
+  public async notifyFloorAlert(
+    alert: FloorAlert,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createFloorAlertText(alert, collectionName), "", "");
+  }
+
+  public async notifyDigest(
+    digest: Digest,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createDigestText(digest, collectionName), "", "");
+  }
+
+  public async notifyWalletAlert(alert: WalletAlert): Promise<void> {
+    const { mint } = alert.event.transaction;
+    await this.send(createWalletAlertText(alert), mint.imageUri, mint.name);
+  }
+
+  public destroy(): void {
+    // every request stands alone, nothing to close
+  }
+
+  private async send(text: string, imageUri: string, altText: string) {
+    const payload = {
+      text,
+      blocks: [
+        {
+          type: "section",
+          text: { type: "mrkdwn", text },
+          ...(imageUri
+            ? {
+                accessory: {
+                  type: "image",
+                  image_url: imageUri,
+                  alt_text: altText,
+                },
+              }
+            : {}),
+        },
+      ],
+    };
+
+    if (this.dryRun) {
+      printDryRun(this.name, payload);
+      return;
+    }
+
+    await postJson(this.url, payload);
+  }
+}
+
+export default SlackNotifier;
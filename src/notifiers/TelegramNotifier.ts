@@ -0,0 +1,117 @@
+import { TextTemplates } from "../config";
+import { ImageBuffer } from "../lib/images";
+import { postBody, postJson } from "../lib/http";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import {
+  createDigestText,
+  createEventText,
+  createFloorAlertText,
+  createSweepTweetText,
+  createWalletAlertText,
+} from "../twitter";
+import { Notifier, printDryRun } from "./Notifier";
+
+const TELEGRAM_API_URL = "https://api.telegram.org";
+
+/**
+ * Posts to a chat or channel through the Telegram Bot API, as a photo with a
+ * caption when the image could be downloaded.
+ */
+class TelegramNotifier implements Notifier {
+  public readonly name: string;
+  private botToken: string;
+  private chatId: string;
+  private templates: TextTemplates;
+  private dryRun: boolean;
+
+  constructor(
+    botToken: string,
+    chatId: string,
+    templates: TextTemplates,
+    dryRun = false
+  ) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+    this.templates = templates;
+    this.dryRun = dryRun;
+    this.name = `telegram:${chatId}`;
+  }
+
+  public async notify(
+    event: NotificationEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    const template =
+      this.templates[event.kind] ?? event.templates.telegram[event.kind];
+
+    await this.send(createEventText(event, template), imageBuffer);
+  }
+
+  public async notifySweep(
+    sweep: SweepEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.send(createSweepTweetText(sweep), imageBuffer);
+  }
+
+  public async notifyFloorAlert(
+    alert: FloorAlert,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createFloorAlertText(alert, collectionName), null);
+  }
+
+  public async notifyDigest(
+    digest: Digest,
+    collectionName: string
+  ): Promise<void> {
+    await this.send(createDigestText(digest, collectionName), null);
+  }
+
+  public async notifyWalletAlert(
+    alert: WalletAlert,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.send(createWalletAlertText(alert), imageBuffer);
+  }
+
+  public destroy(): void {
+    // every request stands alone, nothing to close
+  }
+
+  private async send(text: string, imageBuffer: ImageBuffer | null) {
+    if (this.dryRun) {
+      printDryRun(this.name, imageBuffer ? `${text}\n(with image)` : text);
+      return;
+    }
+
+    const baseUrl = `${TELEGRAM_API_URL}/bot${this.botToken}`;
+
+    if (!imageBuffer) {
+      await postJson(`${baseUrl}/sendMessage`, {
+        chat_id: this.chatId,
+        text,
+      });
+      return;
+    }
+
+    const form = new FormData();
+    form.append("chat_id", this.chatId);
+    form.append("caption", text);
+    form.append(
+      "photo",
+      new Blob([imageBuffer.buffer], { type: imageBuffer.fileType?.mime }),
+      `image.${imageBuffer.fileType?.ext ?? "png"}`
+    );
+
+    await postBody(`${baseUrl}/sendPhoto`, form);
+  }
+}
+
+export default TelegramNotifier;
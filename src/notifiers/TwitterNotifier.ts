@@ -0,0 +1,121 @@
+import { TwitterApi } from "twitter-api-v2";
+import { TextTemplates, TwitterTarget } from "../config";
+import { ImageBuffer } from "../lib/images";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import {
+  TWEET_MAX_LENGTH,
+  createDigestText,
+  createEventText,
+  createFloorAlertText,
+  createSweepTweetText,
+  createWalletAlertText,
+  getTweetLength,
+} from "../twitter";
+import { Notifier, UndeliverableError, printDryRun } from "./Notifier";
+
+class TwitterNotifier implements Notifier {
+  public readonly name: string;
+  private client: TwitterApi;
+  private templates: TextTemplates;
+  private dryRun: boolean;
+
+  constructor(credentials: TwitterTarget, dryRun = false) {
+    this.client = new TwitterApi({
+      appKey: credentials.apiKey,
+      appSecret: credentials.apiSecret,
+      accessToken: credentials.accessToken,
+      accessSecret: credentials.accessTokenSecret,
+    });
+    // access tokens are prefixed with the numeric id of the account
+    this.name = `twitter:${credentials.accessToken.split("-")[0]}`;
+    this.templates = credentials.templates;
+    this.dryRun = dryRun;
+  }
+
+  public async notify(
+    event: NotificationEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    const template =
+      this.templates[event.kind] ?? event.templates.twitter[event.kind];
+
+    await this.tweet(createEventText(event, template), imageBuffer);
+  }
+
+  public async notifySweep(
+    sweep: SweepEvent,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.tweet(createSweepTweetText(sweep), imageBuffer);
+  }
+
+  public async notifyFloorAlert(
+    alert: FloorAlert,
+    collectionName: string
+  ): Promise<void> {
+    await this.tweet(createFloorAlertText(alert, collectionName), null);
+  }
+
+  public async notifyDigest(
+    digest: Digest,
+    collectionName: string
+  ): Promise<void> {
+    await this.tweet(createDigestText(digest, collectionName), null);
+  }
+
+  public async notifyWalletAlert(
+    alert: WalletAlert,
+    imageBuffer: ImageBuffer | null
+  ): Promise<void> {
+    await this.tweet(createWalletAlertText(alert), imageBuffer);
+  }
+
+  public destroy(): void {
+    // every request stands alone, nothing to close
+  }
+
+  private async tweet(text: string, imageBuffer: ImageBuffer | null) {
+    const length = getTweetLength(text);
+
+    if (length > TWEET_MAX_LENGTH) {
+      throw new UndeliverableError(
+        `Tweet is ${length} characters, over the ${TWEET_MAX_LENGTH} limit: ${text}`
+      );
+    }
+
+    if (this.dryRun) {
+      printDryRun(
+        this.name,
+        `${text}\n(${length} characters${imageBuffer ? ", with image" : ""})`
+      );
+      return;
+    }
+
+    let mediaIds: string[] = [];
+
+    try {
+      if (imageBuffer) {
+        const mediaId = await this.client.v1.uploadMedia(imageBuffer.buffer, {
+          mimeType: imageBuffer.fileType?.mime,
+        });
+        mediaIds = [mediaId];
+      }
+    } catch (err) {
+      console.error(err);
+    }
+
+    await this.client.v2.tweet(text, {
+      media: {
+        media_ids: mediaIds,
+      },
+    });
+  }
+}
+
+export default TwitterNotifier;
@@ -0,0 +1,125 @@
+import { createHmac } from "crypto";
+import { postBody } from "../lib/http";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import { Notifier, printDryRun } from "./Notifier";
+
+function serializeEvent(event: NotificationEvent) {
+  const { tx, mint } = event.transaction;
+
+  return {
+    kind: event.kind,
+    slug: event.slug,
+    source: tx.source,
+    txType: tx.txType,
+    txId: tx.txId,
+    txKey: tx.txKey,
+    txAt: tx.txAt,
+    buyer: tx.buyerId,
+    buyerLabel: event.buyerLabel,
+    seller: tx.sellerId,
+    sellerLabel: event.sellerLabel,
+    priceSol: event.solPrice,
+    priceUsd: event.usdPrice,
+    payment: { symbol: event.paymentSymbol, amount: event.paymentAmount },
+    fiat: event.fiatPrices,
+    priceStale: event.priceStale,
+    floorSol: event.floorPrice,
+    floorDifferencePct: event.floorDifference,
+    rarity: {
+      tier: event.rarity.tier,
+      rank: event.rarity.rank,
+      rankSource: event.rarity.source,
+    },
+    mint: {
+      onchainId: mint.onchainId,
+      name: mint.name,
+      imageUri: mint.imageUri,
+      attributes: mint.attributes,
+    },
+  };
+}
+
+/**
+ * POSTs events as JSON for other services to consume. The body is signed with
+ * HMAC-SHA256 over `${timestamp}.${body}` using the shared secret, receivers
+ * should recompute it and reject stale timestamps.
+ */
+class WebhookNotifier implements Notifier {
+  public readonly name: string;
+  private url: string;
+  private secret: string;
+  private dryRun: boolean;
+
+  constructor(url: string, secret: string, dryRun = false) {
+    this.url = url;
+    this.secret = secret;
+    this.dryRun = dryRun;
+    this.name = `webhook:${new URL(url).host}`;
+  }
+
+  public async notify(event: NotificationEvent): Promise<void> {
+    await this.send({ type: "transaction", event: serializeEvent(event) });
+  }
+
+  public async notifySweep(sweep: SweepEvent): Promise<void> {
+    await this.send({
+      type: "sweep",
+      slug: sweep.slug,
+      buyer: sweep.buyerId,
+      buyerLabel: sweep.buyerLabel,
+      totalSol: sweep.totalSol,
+      totalUsd: sweep.totalUsd,
+      totalFiat: sweep.totalFiat,
+      events: sweep.events.map(serializeEvent),
+    });
+  }
+
+  public async notifyFloorAlert(alert: FloorAlert): Promise<void> {
+    await this.send({ type: "floor", alert });
+  }
+
+  public async notifyDigest(digest: Digest): Promise<void> {
+    await this.send({ type: "digest", digest });
+  }
+
+  public async notifyWalletAlert(alert: WalletAlert): Promise<void> {
+    await this.send({
+      type: "wallet",
+      wallet: alert.wallet,
+      label: alert.label,
+      side: alert.side,
+      event: serializeEvent(alert.event),
+    });
+  }
+
+  public destroy(): void {
+    // every request stands alone, nothing to close
+  }
+
+  private async send(payload: object) {
+    if (this.dryRun) {
+      printDryRun(this.name, payload);
+      return;
+    }
+
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = createHmac("sha256", this.secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+
+    await postBody(this.url, body, {
+      "Content-Type": "application/json",
+      "X-Signature-Timestamp": timestamp,
+      "X-Signature": `sha256=${signature}`,
+    });
+  }
+}
+
+export default WebhookNotifier;
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { after, test } from "node:test";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadReplayFile } from "./replay";
+import { RecordedFrame } from "./services/TensorService";
+import { createTransaction } from "./testing";
+
+const dir = await mkdtemp(join(tmpdir(), "replay-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+let files = 0;
+
+async function write(content: string): Promise<string> {
+  const path = join(dir, `${++files}.json`);
+  await writeFile(path, content);
+  return path;
+}
+
+function ndjson(items: unknown[]): string {
+  return items.map((item) => JSON.stringify(item)).join("\n");
+}
+
+function frame(
+  frame: RecordedFrame["frame"],
+  slug: string | null = "slug"
+): RecordedFrame {
+  return { receivedAt: 1_700_000_000_000, slug, frame };
+}
+
+const transaction = createTransaction();
+
+test("fixtures load from a JSON array or NDJSON", async () => {
+  const fixture = { slug: "slug", transaction };
+
+  assert.deepEqual(
+    await loadReplayFile(await write(JSON.stringify([fixture]))),
+    [fixture]
+  );
+  assert.deepEqual(
+    await loadReplayFile(await write(`${ndjson([fixture, fixture])}\n\n`)),
+    [fixture, fixture]
+  );
+});
+
+test("recorded frames without a sale are skipped", async () => {
+  const path = await write(
+    ndjson([
+      frame({ type: "connection_ack" }, null),
+      frame({
+        type: "next",
+        id: "1",
+        payload: { data: { newTransactionTV2: transaction } },
+      }),
+      frame({ type: "next", id: "1", payload: { errors: [{ message: "x" }] } }),
+      frame({
+        type: "next",
+        id: "1",
+        payload: { data: { newTransactionTV2: null } },
+      }),
+      frame({ type: "error", id: "1", payload: [{ message: "x" }] }),
+      frame({ type: "complete", id: "1" }),
+    ])
+  );
+
+  assert.deepEqual(await loadReplayFile(path), [{ slug: "slug", transaction }]);
+});
+
+test("invalid lines are reported by line and field", async () => {
+  const { source, ...tx } = transaction.tx;
+  const path = await write(
+    ndjson([{ slug: "slug", transaction: { ...transaction, tx } }])
+  );
+
+  await assert.rejects(loadReplayFile(path), {
+    message: `${path}:1.transaction.tx.source: expected a string, got undefined`,
+  });
+});
+
+test("unknown entries are rejected", async () => {
+  const path = await write(ndjson([{ slug: "slug" }]));
+
+  await assert.rejects(loadReplayFile(path), {
+    message: `${path}:1: expected a recorded frame or { "slug", "transaction" }`,
+  });
+});
+
+test("invalid array items are reported by index", async () => {
+  const path = await write(JSON.stringify([{ slug: 1, transaction }]));
+
+  await assert.rejects(loadReplayFile(path), {
+    message: `${path}[0].slug: expected a string, got number`,
+  });
+});
@@ -0,0 +1,89 @@
+import { readFile } from "fs/promises";
+import { Validator, nullable, object, string } from "./lib/schema";
+import {
+  TensorTransaction,
+  validateTransaction,
+} from "./services/TensorService";
+
+export interface ReplayEntry {
+  slug: string;
+  transaction: TensorTransaction;
+}
+
+// a RecordedFrame, the payload is only checked for "next" frames
+const validateRecordedFrame = object<{
+  slug: string | null;
+  frame: { type: string; payload: unknown };
+}>({
+  slug: nullable(string),
+  frame: object({ type: string, payload: (value) => value }),
+});
+
+const validateNextPayload = object({
+  // missing when the frame only carries errors
+  data: nullable(object({ newTransactionTV2: nullable(validateTransaction) })),
+});
+
+const validateFixture: Validator<ReplayEntry> = object({
+  slug: string,
+  transaction: validateTransaction,
+});
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function toEntry(item: unknown, where: string): ReplayEntry | null {
+  if (isObject(item) && "frame" in item) {
+    const { slug, frame } = validateRecordedFrame(item, where);
+
+    // errors, completes and frames of unknown subscriptions carry no sale
+    if (frame.type !== "next" || !slug) {
+      return null;
+    }
+
+    const { data } = validateNextPayload(
+      frame.payload,
+      `${where}.frame.payload`
+    );
+
+    return data?.newTransactionTV2
+      ? { slug, transaction: data.newTransactionTV2 }
+      : null;
+  }
+
+  if (isObject(item) && "slug" in item && "transaction" in item) {
+    return validateFixture(item, where);
+  }
+
+  throw new Error(
+    `${where}: expected a recorded frame or { "slug", "transaction" }`
+  );
+}
+
+/**
+ * Reads the transactions to replay from a RECORD_FILE recording, or from
+ * hand-written fixtures given as NDJSON lines or as a JSON array of
+ * `{ "slug": "...", "transaction": { "tx": ..., "mint": ... } }`.
+ */
+export async function loadReplayFile(path: string): Promise<ReplayEntry[]> {
+  const content = await readFile(path, "utf8");
+
+  if (content.trimStart().startsWith("[")) {
+    const items: unknown[] = JSON.parse(content);
+
+    return items.flatMap((item, index) => {
+      const entry = toEntry(item, `${path}[${index}]`);
+      return entry ? [entry] : [];
+    });
+  }
+
+  return content.split("\n").flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+
+    const entry = toEntry(JSON.parse(line), `${path}:${index + 1}`);
+    return entry ? [entry] : [];
+  });
+}
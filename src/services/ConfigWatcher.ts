@@ -0,0 +1,95 @@
+import { Stats, unwatchFile, watchFile } from "fs";
+import { AppConfig } from "../config";
+
+export interface ConfigWatcherOptions {
+  // config file to watch for changes, empty to only reload on SIGHUP
+  path: string;
+  // how often the file's modification time is checked
+  pollMs?: number;
+}
+
+/**
+ * Reloads the configuration when its file changes or the process receives
+ * SIGHUP and hands it to `onReload`. An invalid edit is logged and the running
+ * configuration kept. Reloads never overlap, a change during one is picked up
+ * after it.
+ */
+class ConfigWatcher {
+  private load: () => AppConfig;
+  private onReload: (config: AppConfig) => Promise<void>;
+  private options: Required<ConfigWatcherOptions>;
+  private reloading: Promise<void> = Promise.resolve();
+
+  constructor(
+    load: () => AppConfig,
+    onReload: (config: AppConfig) => Promise<void>,
+    options: ConfigWatcherOptions
+  ) {
+    this.load = load;
+    this.onReload = onReload;
+    this.options = {
+      path: options.path,
+      pollMs: options.pollMs ?? 2_000,
+    };
+  }
+
+  public start(): void {
+    // polling survives editors that replace the file instead of writing it
+    if (this.options.path) {
+      watchFile(
+        this.options.path,
+        { interval: this.options.pollMs },
+        this.onFileChange
+      );
+      console.log(`Watching ${this.options.path} for changes`);
+    }
+
+    process.on("SIGHUP", this.onSignal);
+  }
+
+  public stop(): void {
+    if (this.options.path) {
+      unwatchFile(this.options.path, this.onFileChange);
+    }
+
+    process.off("SIGHUP", this.onSignal);
+  }
+
+  public reload(reason: string): Promise<void> {
+    this.reloading = this.reloading.then(async () => {
+      console.log(`Reloading the configuration (${reason})`);
+
+      let config: AppConfig;
+
+      try {
+        config = this.load();
+      } catch (err) {
+        console.error(
+          "Ignoring the new configuration, keeping the running one",
+          err instanceof Error ? err.message : err
+        );
+        return;
+      }
+
+      try {
+        await this.onReload(config);
+      } catch (err) {
+        console.error("Failed to apply the new configuration", err);
+      }
+    });
+
+    return this.reloading;
+  }
+
+  private onFileChange = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      this.reload(`${this.options.path} changed`);
+    }
+  };
+
+  private onSignal = () => {
+    this.reload("SIGHUP");
+  };
+}
+
+export default ConfigWatcher;
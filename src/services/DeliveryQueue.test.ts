@@ -0,0 +1,280 @@
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "fs";
+import { mkdtemp, rm } from "fs/promises";
+import { after, test } from "node:test";
+import { tmpdir } from "os";
+import { join } from "path";
+import { setTimeout as sleep } from "timers/promises";
+import { HttpError } from "../lib/http";
+import { FloorAlert } from "../notifications";
+import { Notifier } from "../notifiers/Notifier";
+import DeliveryQueue, {
+  DeliveryPayload,
+  getRetryAfterMs,
+} from "./DeliveryQueue";
+
+const dir = await mkdtemp(join(tmpdir(), "queue-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+/**
+ * Records the collection name of every floor alert it is asked to post and
+ * fails with the next of `failures` while there are any.
+ */
+function createNotifier(failures: unknown[] = []) {
+  const attempts: { name: string; at: number }[] = [];
+
+  const notifier: Notifier = {
+    name: "test",
+    notify: async () => undefined,
+    notifySweep: async () => undefined,
+    notifyFloorAlert: async (alert, collectionName) => {
+      attempts.push({ name: collectionName, at: Date.now() });
+
+      const failure = failures.shift();
+      if (failure) {
+        throw failure;
+      }
+    },
+    notifyDigest: async () => undefined,
+    notifyWalletAlert: async () => undefined,
+    destroy: () => undefined,
+  };
+
+  return { notifier, attempts };
+}
+
+function payload(collectionName: string): DeliveryPayload {
+  return { type: "floor", alert: {} as FloorAlert, collectionName };
+}
+
+function httpError(status: number, headers: { [name: string]: string } = {}) {
+  return new HttpError(`HTTP ${status}`, status, new Headers(headers), "");
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2_000) {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("timed out");
+    }
+    await sleep(5);
+  }
+}
+
+// jobs leave the queue before their dead letter is appended
+async function readDeadLetters(path: string) {
+  let content = "";
+
+  await waitFor(() => {
+    content = existsSync(path) ? readFileSync(path, "utf8") : "";
+    return content.endsWith("\n");
+  });
+
+  return content
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+}
+
+test("the retry delay is read from the error", () => {
+  assert.equal(getRetryAfterMs(httpError(429, { "retry-after": "3" })), 3_000);
+  assert.equal(getRetryAfterMs(httpError(500)), null);
+  assert.equal(getRetryAfterMs(new Error("timeout")), null);
+
+  const date = new Date(Date.now() + 60_000).toUTCString();
+  const delay = getRetryAfterMs(httpError(503, { "retry-after": date }));
+  assert.ok(delay! > 55_000 && delay! <= 60_000);
+
+  // Telegram puts it in the body
+  const telegram = new HttpError(
+    "HTTP 429",
+    429,
+    new Headers(),
+    JSON.stringify({ ok: false, parameters: { retry_after: 5 } })
+  );
+  assert.equal(getRetryAfterMs(telegram), 5_000);
+});
+
+test("a failed message is retried before the ones after it", async () => {
+  const queue = new DeliveryQueue("", "", { retryBaseDelayMs: 1 });
+  const { notifier, attempts } = createNotifier([httpError(500)]);
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([notifier], payload("a"));
+  queue.enqueue([notifier], payload("b"));
+  queue.enqueue([notifier], payload("c"));
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.deepEqual(
+    attempts.map(({ name }) => name),
+    ["a", "a", "b", "c"]
+  );
+});
+
+test("a slow sink doesn't hold up the others", async () => {
+  const queue = new DeliveryQueue("", "", { retryBaseDelayMs: 60_000 });
+  const slow = createNotifier([httpError(429, { "retry-after": "0.2" })]);
+  const fast = createNotifier();
+  queue.setNotifiers(
+    new Map([
+      ["slow", slow.notifier],
+      ["fast", fast.notifier],
+    ])
+  );
+
+  queue.enqueue([slow.notifier, fast.notifier], payload("a"));
+
+  await waitFor(() => fast.attempts.length === 1);
+  assert.equal(slow.attempts.length, 1);
+  await waitFor(() => queue.getPendingCount() === 0);
+});
+
+test("retries wait as long as the sink asked", async () => {
+  // the backoff alone would wait up to a minute
+  const queue = new DeliveryQueue("", "", { retryBaseDelayMs: 60_000 });
+  const { notifier, attempts } = createNotifier([
+    httpError(429, { "retry-after": "0.2" }),
+  ]);
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([notifier], payload("a"));
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.equal(attempts.length, 2);
+  assert.ok(attempts[1].at - attempts[0].at >= 190);
+});
+
+test("client errors are dead-lettered without retrying", async () => {
+  const deadLetterPath = join(dir, "client-error.jsonl");
+  const queue = new DeliveryQueue("", deadLetterPath, { retryBaseDelayMs: 1 });
+  const { notifier, attempts } = createNotifier([httpError(400)]);
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([notifier], payload("a"));
+  queue.enqueue([notifier], payload("b"));
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.deepEqual(
+    attempts.map(({ name }) => name),
+    ["a", "b"]
+  );
+
+  const [letter] = await readDeadLetters(deadLetterPath);
+  assert.equal(letter.reason, "HTTP 400");
+  assert.equal(letter.attempts, 1);
+  assert.equal(letter.payload.collectionName, "a");
+});
+
+test("timeouts and rate limits are retried", async () => {
+  const queue = new DeliveryQueue("", "", { retryBaseDelayMs: 1 });
+  const { notifier, attempts } = createNotifier([
+    httpError(408),
+    httpError(429),
+  ]);
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([notifier], payload("a"));
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.equal(attempts.length, 3);
+});
+
+test("messages are dead-lettered once out of attempts", async () => {
+  const deadLetterPath = join(dir, "attempts.jsonl");
+  const queue = new DeliveryQueue("", deadLetterPath, {
+    maxAttempts: 3,
+    retryBaseDelayMs: 1,
+  });
+  const { notifier, attempts } = createNotifier([
+    httpError(500),
+    httpError(502),
+    httpError(503),
+  ]);
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([notifier], payload("a"));
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.equal(attempts.length, 3);
+
+  const [letter] = await readDeadLetters(deadLetterPath);
+  assert.equal(letter.reason, "HTTP 503");
+});
+
+// never settles, so the message stays queued
+function createStuckNotifier(): Notifier {
+  const { notifier } = createNotifier();
+  notifier.notifyFloorAlert = () => new Promise(() => undefined);
+  return notifier;
+}
+
+// writes are chained, waiting for the last one waits for all of them
+function written(queue: DeliveryQueue): Promise<void> {
+  return (queue as unknown as { writing: Promise<void> }).writing;
+}
+
+test("pending messages survive a restart", async () => {
+  const path = join(dir, "restart.json");
+  const queue = new DeliveryQueue(path, "");
+  const stuck = createStuckNotifier();
+  queue.setNotifiers(new Map([["sink", stuck]]));
+
+  queue.enqueue([stuck], payload("a"));
+  queue.enqueue([stuck], payload("b"));
+  await written(queue);
+
+  const restarted = new DeliveryQueue(path, "");
+  await restarted.load();
+  assert.equal(restarted.getPendingCount(), 2);
+
+  // a new notifier for the same sink key takes over
+  const { notifier, attempts } = createNotifier();
+  restarted.setNotifiers(new Map([["sink", notifier]]));
+
+  await waitFor(() => restarted.getPendingCount() === 0);
+  assert.deepEqual(
+    attempts.map(({ name }) => name),
+    ["a", "b"]
+  );
+});
+
+test("messages for sinks that are gone are dead-lettered", async () => {
+  const path = join(dir, "gone.json");
+  const deadLetterPath = join(dir, "gone.jsonl");
+  const queue = new DeliveryQueue(path, "");
+  const stuck = createStuckNotifier();
+  queue.setNotifiers(new Map([["old", stuck]]));
+
+  queue.enqueue([stuck], payload("a"));
+  await written(queue);
+
+  const restarted = new DeliveryQueue(path, deadLetterPath);
+  await restarted.load();
+  restarted.setNotifiers(new Map([["new", createNotifier().notifier]]));
+
+  await waitFor(() => restarted.getPendingCount() === 0);
+  const [letter] = await readDeadLetters(deadLetterPath);
+  assert.equal(letter.reason, "sink is no longer configured");
+  assert.equal(letter.payload.collectionName, "a");
+});
+
+test("images are only loaded when a sink receives the message", async () => {
+  const loaded: string[] = [];
+  const queue = new DeliveryQueue("", "", {
+    loadImage: async (_, imageUri) => {
+      loaded.push(imageUri);
+      return null;
+    },
+  });
+  const { notifier } = createNotifier();
+  const unknown = createNotifier();
+  queue.setNotifiers(new Map([["sink", notifier]]));
+
+  queue.enqueue([], payload("a"), "https://example.com/none.png");
+  queue.enqueue([unknown.notifier], payload("b"), "https://example.com/b.png");
+  queue.enqueue([notifier], payload("c"), "https://example.com/c.png");
+
+  await waitFor(() => queue.getPendingCount() === 0);
+  assert.deepEqual(loaded, ["https://example.com/c.png"]);
+});
@@ -0,0 +1,439 @@
+import { createHash, randomUUID } from "crypto";
+import { DiscordAPIError, HTTPError, RateLimitError } from "discord.js";
+import { appendFile, mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { ApiResponseError } from "twitter-api-v2";
+import { HttpError } from "../lib/http";
+import { ImageBuffer, getImageBuffer } from "../lib/images";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+} from "../notifications";
+import { Notifier, UndeliverableError } from "../notifiers/Notifier";
+import {
+  deliveryQueuePending,
+  notificationsDeadLettered,
+  notificationsFailed,
+  notificationsSent,
+} from "../metrics";
+
+export type DeliveryPayload =
+  | { type: "event"; event: NotificationEvent }
+  | { type: "sweep"; sweep: SweepEvent }
+  | { type: "floor"; alert: FloorAlert; collectionName: string }
+  | { type: "digest"; digest: Digest; collectionName: string }
+  | { type: "wallet"; alert: WalletAlert };
+
+export interface DeliveryJob {
+  id: string;
+  // identifies the sink, names can be shared by several, e.g. one webhook
+  // with two template sets
+  sink: string;
+  // Notifier.name of the sink, for logs and metrics
+  sinkName: string;
+  payload: DeliveryPayload;
+  // refetched after a restart, buffers aren't persisted
+  imageUri: string | null;
+  createdAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+}
+
+export interface DeliveryQueueOptions {
+  // give up and dead-letter a job after this many failed attempts
+  maxAttempts?: number;
+  // retry delays grow exponentially from base up to max
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  // the image attached to a message, the plain download by default
+  loadImage?: (
+    payload: DeliveryPayload,
+    imageUri: string
+  ) => Promise<ImageBuffer | null>;
+}
+
+/**
+ * How long the sink asked us to wait before trying again, from Retry-After,
+ * Telegram's retry_after, Twitter's rate limit reset or discord.js' rate
+ * limit error. Null when the error doesn't say.
+ */
+export function getRetryAfterMs(err: unknown): number | null {
+  if (err instanceof RateLimitError) {
+    return err.timeToReset;
+  }
+
+  if (err instanceof ApiResponseError && err.rateLimitError && err.rateLimit) {
+    return Math.max(0, err.rateLimit.reset * 1000 - Date.now());
+  }
+
+  if (err instanceof HttpError) {
+    const retryAfter = err.headers.get("retry-after");
+
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+
+      return Number.isFinite(seconds)
+        ? seconds * 1000
+        : Math.max(0, Date.parse(retryAfter) - Date.now()) || null;
+    }
+
+    try {
+      const seconds = JSON.parse(err.body)?.parameters?.retry_after;
+
+      if (typeof seconds === "number") {
+        return seconds * 1000;
+      }
+    } catch (parseErr) {
+      // not json, nothing to read
+    }
+  }
+
+  return null;
+}
+
+function getStatus(err: unknown): number | null {
+  if (err instanceof HttpError) {
+    return err.status;
+  }
+
+  if (err instanceof DiscordAPIError || err instanceof HTTPError) {
+    return err.status;
+  }
+
+  if (err instanceof ApiResponseError) {
+    return err.code;
+  }
+
+  return null;
+}
+
+/**
+ * Client errors won't get better by retrying, except for timeouts and rate
+ * limits.
+ */
+function isPermanentFailure(err: unknown): boolean {
+  if (err instanceof UndeliverableError) {
+    return true;
+  }
+
+  const status = getStatus(err);
+
+  return (
+    status != null &&
+    status >= 400 &&
+    status < 500 &&
+    status !== 408 &&
+    status !== 429
+  );
+}
+
+/**
+ * Sink ids are persisted with the jobs, hashed as the keys contain secrets.
+ */
+function getSinkId(key: string): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, 16);
+}
+
+/**
+ * Delivers messages to every sink in order, one at a time per sink. Failed
+ * deliveries are retried with backoff, or after the delay the sink asked for,
+ * and end up in the dead letter log once they run out of attempts. Pending
+ * jobs are persisted so a restart picks up where it left off, unless the
+ * paths are empty.
+ */
+class DeliveryQueue {
+  private path: string;
+  private deadLetterPath: string;
+  private options: Required<DeliveryQueueOptions>;
+  private jobs: DeliveryJob[] = [];
+  // by sink id
+  private notifiers = new Map<string, Notifier>();
+  private sinkIds = new Map<Notifier, string>();
+  private images = new Map<string, Promise<ImageBuffer | null>>();
+  private draining = new Set<string>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    path: string,
+    deadLetterPath: string,
+    options: DeliveryQueueOptions = {}
+  ) {
+    this.path = path;
+    this.deadLetterPath = deadLetterPath;
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 8,
+      retryBaseDelayMs: options.retryBaseDelayMs ?? 2_000,
+      retryMaxDelayMs: options.retryMaxDelayMs ?? 10 * 60 * 1000,
+      loadImage:
+        options.loadImage ?? ((_, imageUri) => getImageBuffer(imageUri)),
+    };
+  }
+
+  public async load(): Promise<void> {
+    if (!this.path) {
+      return;
+    }
+
+    try {
+      this.jobs = JSON.parse(await readFile(this.path, "utf8"));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${this.path}, starting empty`, err);
+      }
+      this.jobs = [];
+    }
+
+    deliveryQueuePending.set({}, this.jobs.length);
+
+    if (this.jobs.length > 0) {
+      console.log(`Resuming ${this.jobs.length} pending deliveries`);
+    }
+  }
+
+  /**
+   * Sets the sinks jobs are delivered to, by a key unique to each sink that
+   * stays the same while its destination does, and starts draining. Jobs for
+   * sinks that are no longer configured are dead-lettered.
+   */
+  public setNotifiers(notifiers: Map<string, Notifier>): void {
+    this.notifiers = new Map();
+    this.sinkIds = new Map();
+
+    for (const [key, notifier] of notifiers) {
+      const id = getSinkId(key);
+      this.notifiers.set(id, notifier);
+      this.sinkIds.set(notifier, id);
+    }
+
+    for (const sink of new Set(this.jobs.map((job) => job.sink))) {
+      this.drain(sink);
+    }
+  }
+
+  public enqueue(
+    notifiers: Notifier[],
+    payload: DeliveryPayload,
+    imageUri: string | null = null
+  ): void {
+    const known = notifiers.filter((notifier) => {
+      if (!this.sinkIds.has(notifier)) {
+        console.error(`Not delivering to unknown sink ${notifier.name}`);
+        return false;
+      }
+      return true;
+    });
+
+    // no art is downloaded or rendered when nobody receives it
+    if (known.length === 0) {
+      return;
+    }
+
+    // fetched once and shared by every sink
+    const image = imageUri ? this.options.loadImage(payload, imageUri) : null;
+    const sinks = new Set<string>();
+
+    for (const notifier of known) {
+      const sink = this.sinkIds.get(notifier)!;
+      sinks.add(sink);
+
+      const job: DeliveryJob = {
+        id: randomUUID(),
+        sink,
+        sinkName: notifier.name,
+        payload,
+        imageUri,
+        createdAt: Date.now(),
+        attempts: 0,
+        nextAttemptAt: 0,
+        lastError: null,
+      };
+
+      if (image) {
+        this.images.set(job.id, image);
+      }
+
+      this.jobs.push(job);
+    }
+
+    this.save();
+
+    for (const sink of sinks) {
+      this.drain(sink);
+    }
+  }
+
+  public getPendingCount(): number {
+    return this.jobs.length;
+  }
+
+  private async drain(sink: string): Promise<void> {
+    if (this.draining.has(sink)) {
+      return;
+    }
+
+    this.draining.add(sink);
+    clearTimeout(this.timers.get(sink));
+    this.timers.delete(sink);
+
+    try {
+      let job: DeliveryJob | undefined;
+
+      while ((job = this.jobs.find((item) => item.sink === sink))) {
+        const waitMs = job.nextAttemptAt - Date.now();
+
+        // the head of the line blocks the rest so the order is kept
+        if (waitMs > 0) {
+          this.timers.set(
+            sink,
+            setTimeout(() => this.drain(sink), waitMs)
+          );
+          return;
+        }
+
+        const notifier = this.notifiers.get(sink);
+
+        if (!notifier) {
+          await this.deadLetter(job, "sink is no longer configured");
+          continue;
+        }
+
+        try {
+          await this.send(notifier, job);
+          notificationsSent.inc({ sink: job.sinkName });
+          this.remove(job);
+        } catch (err) {
+          await this.retryOrDeadLetter(job, err);
+        }
+      }
+    } finally {
+      this.draining.delete(sink);
+    }
+  }
+
+  private async send(notifier: Notifier, job: DeliveryJob): Promise<void> {
+    const { payload } = job;
+
+    switch (payload.type) {
+      case "event":
+        return notifier.notify(payload.event, await this.getImage(job));
+      case "sweep":
+        return notifier.notifySweep(payload.sweep, await this.getImage(job));
+      case "floor":
+        return notifier.notifyFloorAlert(payload.alert, payload.collectionName);
+      case "digest":
+        return notifier.notifyDigest(payload.digest, payload.collectionName);
+      case "wallet":
+        return notifier.notifyWalletAlert(
+          payload.alert,
+          await this.getImage(job)
+        );
+    }
+  }
+
+  private getImage(job: DeliveryJob): Promise<ImageBuffer | null> {
+    if (!job.imageUri) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.images.has(job.id)) {
+      this.images.set(
+        job.id,
+        this.options.loadImage(job.payload, job.imageUri)
+      );
+    }
+
+    return this.images.get(job.id)!;
+  }
+
+  private async retryOrDeadLetter(
+    job: DeliveryJob,
+    err: unknown
+  ): Promise<void> {
+    job.attempts++;
+    notificationsFailed.inc({ sink: job.sinkName });
+    job.lastError = err instanceof Error ? err.message : String(err);
+
+    if (isPermanentFailure(err) || job.attempts >= this.options.maxAttempts) {
+      console.error(`Failed to deliver to ${job.sinkName}, giving up`, err);
+      await this.deadLetter(job, job.lastError);
+      return;
+    }
+
+    const delay = getRetryAfterMs(err) ?? this.getBackoffDelay(job.attempts);
+    job.nextAttemptAt = Date.now() + delay;
+
+    console.error(
+      `Failed to deliver to ${job.sinkName} (attempt ${job.attempts}), retrying in ${delay}ms`,
+      err
+    );
+
+    this.save();
+  }
+
+  /**
+   * Exponential backoff with full jitter, like the websocket reconnects.
+   */
+  private getBackoffDelay(attempt: number): number {
+    const maxDelay = Math.min(
+      this.options.retryMaxDelayMs,
+      this.options.retryBaseDelayMs * Math.pow(2, attempt - 1)
+    );
+
+    return Math.round(Math.random() * maxDelay);
+  }
+
+  private async deadLetter(job: DeliveryJob, reason: string): Promise<void> {
+    this.remove(job);
+    notificationsDeadLettered.inc({ sink: job.sinkName });
+
+    if (!this.deadLetterPath) {
+      console.error(`Dropped message to ${job.sinkName}: ${reason}`);
+      return;
+    }
+
+    try {
+      await mkdir(dirname(this.deadLetterPath), { recursive: true });
+      await appendFile(
+        this.deadLetterPath,
+        `${JSON.stringify({ ...job, reason, failedAt: Date.now() })}\n`
+      );
+    } catch (err) {
+      console.error(`Failed to write ${this.deadLetterPath}`, err);
+    }
+  }
+
+  private remove(job: DeliveryJob): void {
+    this.jobs = this.jobs.filter((item) => item !== job);
+    this.images.delete(job.id);
+    this.save();
+  }
+
+  private save(): Promise<void> {
+    deliveryQueuePending.set({}, this.jobs.length);
+
+    if (!this.path) {
+      return this.writing;
+    }
+
+    // chain writes so they never interleave on disk
+    this.writing = this.writing.then(async () => {
+      try {
+        const tmpPath = `${this.path}.tmp`;
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmpPath, JSON.stringify(this.jobs));
+        await rename(tmpPath, this.path);
+      } catch (err) {
+        console.error(`Failed to write ${this.path}`, err);
+      }
+    });
+
+    return this.writing;
+  }
+}
+
+export default DeliveryQueue;
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getNextRun } from "./DigestScheduler";
+
+function at(iso: string) {
+  return Date.parse(iso);
+}
+
+function nextRun(from: string, time: string, weekday?: number) {
+  return new Date(getNextRun(at(from), time, weekday)).toISOString();
+}
+
+test("the next run is later the same day when the time is still ahead", () => {
+  assert.equal(
+    nextRun("2024-05-01T08:00:00Z", "09:30"),
+    "2024-05-01T09:30:00.000Z"
+  );
+});
+
+test("a time that has passed runs the next day", () => {
+  assert.equal(
+    nextRun("2024-05-01T10:00:00Z", "09:30"),
+    "2024-05-02T09:30:00.000Z"
+  );
+});
+
+test("a run never repeats at the moment it fires", () => {
+  assert.equal(
+    nextRun("2024-05-01T09:30:00Z", "09:30"),
+    "2024-05-02T09:30:00.000Z"
+  );
+});
+
+test("weekly runs wait for their weekday", () => {
+  // 2024-05-01 is a wednesday
+  assert.equal(
+    nextRun("2024-05-01T08:00:00Z", "09:00", 1),
+    "2024-05-06T09:00:00.000Z"
+  );
+  assert.equal(
+    nextRun("2024-05-01T08:00:00Z", "09:00", 3),
+    "2024-05-01T09:00:00.000Z"
+  );
+  assert.equal(
+    nextRun("2024-05-01T10:00:00Z", "09:00", 3),
+    "2024-05-08T09:00:00.000Z"
+  );
+});
+
+test("times are in UTC across month ends", () => {
+  assert.equal(
+    nextRun("2024-02-29T23:59:00Z", "00:00"),
+    "2024-03-01T00:00:00.000Z"
+  );
+});
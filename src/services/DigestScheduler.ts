@@ -0,0 +1,134 @@
+import { DigestConfig, WEEKDAYS } from "../config";
+import { Digest, DigestPeriod, LAMPORTS_PER_SOL } from "../notifications";
+import SaleHistory from "./SaleHistory";
+import { TensorApi } from "./TensorService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Next time after `from` that matches "HH:MM" in UTC, optionally only on the
+ * given weekday (0 = sunday).
+ */
+export function getNextRun(from: number, time: string, weekday?: number) {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  const next = new Date(from);
+  next.setUTCHours(hours, minutes, 0, 0);
+
+  while (
+    next.getTime() <= from ||
+    (weekday != null && next.getUTCDay() !== weekday)
+  ) {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+
+  return next.getTime();
+}
+
+/**
+ * Posts a daily and/or weekly recap per collection, combining Tensor's
+ * collection stats with the sales the bot recorded during the period.
+ */
+class DigestScheduler {
+  private tensorService: TensorApi;
+  private saleHistory: SaleHistory;
+  private onDigest: (digest: Digest) => void;
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    tensorService: TensorApi,
+    saleHistory: SaleHistory,
+    onDigest: (digest: Digest) => void
+  ) {
+    this.tensorService = tensorService;
+    this.saleHistory = saleHistory;
+    this.onDigest = onDigest;
+  }
+
+  public schedule(slug: string, config: DigestConfig): void {
+    this.unschedule(slug);
+
+    if (config.dailyAt) {
+      this.scheduleNext(slug, "daily", config);
+    }
+
+    if (config.weeklyAt) {
+      this.scheduleNext(slug, "weekly", config);
+    }
+  }
+
+  public unschedule(slug: string): void {
+    for (const period of ["daily", "weekly"]) {
+      const key = `${slug}:${period}`;
+      const timer = this.timers.get(key);
+
+      if (timer) {
+        clearTimeout(timer);
+        this.timers.delete(key);
+      }
+    }
+  }
+
+  public async createDigest(
+    slug: string,
+    period: DigestPeriod,
+    topSalesCount: number
+  ): Promise<Digest> {
+    const periodMs = period === "daily" ? DAY_MS : 7 * DAY_MS;
+    const stats = await this.tensorService.getCollectionStats(slug, 0);
+    const suffix = period === "daily" ? "24h" : "7d";
+
+    const sales = this.saleHistory.getSales(slug, Date.now() - periodMs);
+
+    const topSales = [...sales]
+      .sort((a, b) => b.priceSol - a.priceSol)
+      .slice(0, topSalesCount);
+
+    const rarest =
+      [...sales]
+        .filter((sale) => sale.rank != null)
+        .sort((a, b) => a.tierIndex - b.tierIndex || a.rank! - b.rank!)[0] ??
+      null;
+
+    const floorChange = stats[`floor${suffix}`];
+
+    return {
+      slug,
+      period,
+      volumeSol: (Number(stats[`volume${suffix}`]) || 0) / LAMPORTS_PER_SOL,
+      salesCount: stats[`sales${suffix}`] ?? 0,
+      recordedSalesCount: sales.length,
+      floorSol:
+        (parseInt(stats.buyNowPriceNetFees ?? "", 10) || 0) / LAMPORTS_PER_SOL,
+      // Tensor reports the change as a fraction, e.g. 0.05 for +5%
+      floorChangePercent: floorChange != null ? floorChange * 100 : null,
+      topSales,
+      rarest,
+    };
+  }
+
+  private scheduleNext(
+    slug: string,
+    period: DigestPeriod,
+    config: DigestConfig
+  ): void {
+    const weekday =
+      period === "weekly" ? WEEKDAYS.indexOf(config.weeklyOn) : undefined;
+    const time = (period === "daily" ? config.dailyAt : config.weeklyAt)!;
+    const delay = getNextRun(Date.now(), time, weekday) - Date.now();
+
+    this.timers.set(
+      `${slug}:${period}`,
+      setTimeout(async () => {
+        this.scheduleNext(slug, period, config);
+
+        try {
+          this.onDigest(await this.createDigest(slug, period, config.topSales));
+        } catch (err) {
+          console.error(`Failed to create ${period} digest for ${slug}`, err);
+        }
+      }, delay)
+    );
+  }
+}
+
+export default DigestScheduler;
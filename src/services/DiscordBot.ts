@@ -0,0 +1,314 @@
+import {
+  AutocompleteInteraction,
+  ChatInputCommandInteraction,
+  Client,
+  EmbedBuilder,
+  Events,
+  GatewayIntentBits,
+  SlashCommandBuilder,
+  SlashCommandStringOption,
+} from "discord.js";
+import { CollectionConfig } from "../config";
+import {
+  createDiscordEmbed,
+  createDiscordFloorEmbed,
+  createDiscordRarityEmbed,
+  createDiscordStatsEmbed,
+} from "../discord";
+import { GraphQLNotFoundError, GraphQLRateLimitError } from "../lib/graphql";
+import { DEFAULT_RARITY_CONFIG, getRarity } from "../lib/rarity";
+import {
+  NotificationEvent,
+  NotificationKind,
+  getNotificationKind,
+} from "../notifications";
+import { TensorApi, TensorTransaction, parseTxAt } from "./TensorService";
+
+const MAX_LAST_SALES = 10;
+const DEFAULT_LAST_SALES = 5;
+// how many recent transactions are searched for sales
+const LAST_SALES_LOOKBACK = 50;
+
+export interface DiscordBotDeps {
+  tensorService: TensorApi;
+  collections: CollectionConfig[];
+  // builds the same event sale posts are rendered from
+  createEvent: (
+    kind: NotificationKind,
+    transaction: TensorTransaction,
+    collection: CollectionConfig
+  ) => Promise<NotificationEvent>;
+}
+
+function collectionOption(description: string) {
+  return (option: SlashCommandStringOption) =>
+    option
+      .setName("collection")
+      .setDescription(description)
+      .setRequired(true)
+      .setAutocomplete(true);
+}
+
+const COMMANDS = [
+  new SlashCommandBuilder()
+    .setName("floor")
+    .setDescription("Floor price of a collection")
+    .addStringOption(collectionOption("Collection slug")),
+  new SlashCommandBuilder()
+    .setName("stats")
+    .setDescription("Floor, listings, volume and sales of a collection")
+    .addStringOption(collectionOption("Collection slug")),
+  new SlashCommandBuilder()
+    .setName("lastsales")
+    .setDescription("The most recent sales of a tracked collection")
+    .addStringOption(collectionOption("Collection slug"))
+    .addIntegerOption((option) =>
+      option
+        .setName("n")
+        .setDescription(`Number of sales, ${DEFAULT_LAST_SALES} by default`)
+        .setMinValue(1)
+        .setMaxValue(MAX_LAST_SALES)
+    ),
+  new SlashCommandBuilder()
+    .setName("rarity")
+    .setDescription("Rarity tier and rank of an NFT")
+    .addStringOption((option) =>
+      option.setName("mint").setDescription("Mint address").setRequired(true)
+    ),
+].map((command) => command.toJSON());
+
+/**
+ * An optional gateway bot next to the webhooks, answering slash commands
+ * about the tracked collections. Replies use the same embeds as the posts.
+ * Commands are registered to one guild when an id is given, which applies
+ * instantly, otherwise globally.
+ */
+class DiscordBot {
+  private token: string;
+  private guildId: string;
+  private deps: DiscordBotDeps;
+  private client: Client;
+
+  constructor(token: string, guildId: string, deps: DiscordBotDeps) {
+    this.token = token;
+    this.guildId = guildId;
+    this.deps = deps;
+    this.client = new Client({ intents: [GatewayIntentBits.Guilds] });
+
+    this.client.on(Events.InteractionCreate, (interaction) => {
+      if (interaction.isAutocomplete()) {
+        this.autocomplete(interaction).catch((err) =>
+          console.error("Failed to autocomplete collection", err)
+        );
+      } else if (interaction.isChatInputCommand()) {
+        this.handleCommand(interaction);
+      }
+    });
+
+    // unhandled, these would take the whole process down with the posting
+    this.client.on(Events.Error, (err) =>
+      console.error("Discord bot client error", err)
+    );
+    this.client.on(Events.ShardError, (err, shardId) =>
+      console.error(`Discord bot shard ${shardId} error`, err)
+    );
+  }
+
+  public async start(): Promise<void> {
+    const ready = new Promise<void>((resolve) =>
+      this.client.once(Events.ClientReady, () => resolve())
+    );
+
+    await this.client.login(this.token);
+    await ready;
+
+    const { application, user } = this.client;
+
+    if (this.guildId) {
+      await application!.commands.set(COMMANDS, this.guildId);
+    } else {
+      await application!.commands.set(COMMANDS);
+    }
+
+    console.log(
+      `Discord bot ${user?.tag} registered ${COMMANDS.length} commands ${
+        this.guildId ? `in guild ${this.guildId}` : "globally"
+      }`
+    );
+  }
+
+  public async stop(): Promise<void> {
+    await this.client.destroy();
+  }
+
+  public setCollections(collections: CollectionConfig[]): void {
+    this.deps.collections = collections;
+  }
+
+  private findCollection(value: string): CollectionConfig | undefined {
+    const query = value.trim().toLowerCase();
+
+    return this.deps.collections.find(
+      (collection) =>
+        collection.slug.toLowerCase() === query ||
+        collection.display.collectionName.toLowerCase() === query
+    );
+  }
+
+  private async autocomplete(
+    interaction: AutocompleteInteraction
+  ): Promise<void> {
+    const query = interaction.options.getFocused().toLowerCase();
+
+    const choices = this.deps.collections
+      .filter(
+        ({ slug, display }) =>
+          slug.toLowerCase().includes(query) ||
+          display.collectionName.toLowerCase().includes(query)
+      )
+      .slice(0, 25)
+      .map(({ slug, display }) => ({
+        name: display.collectionName,
+        value: slug,
+      }));
+
+    await interaction.respond(choices);
+  }
+
+  private async handleCommand(
+    interaction: ChatInputCommandInteraction
+  ): Promise<void> {
+    try {
+      await interaction.deferReply();
+      await interaction.editReply({ embeds: await this.run(interaction) });
+    } catch (err) {
+      console.error(`Discord command /${interaction.commandName} failed`, err);
+
+      await interaction
+        .editReply({ content: describeError(err), embeds: [] })
+        .catch(() => undefined);
+    }
+  }
+
+  private async run(
+    interaction: ChatInputCommandInteraction
+  ): Promise<EmbedBuilder[]> {
+    const { tensorService } = this.deps;
+
+    switch (interaction.commandName) {
+      case "floor":
+      case "stats": {
+        const value = interaction.options.getString("collection", true);
+        // untracked collections work too, by slug
+        const collection = this.findCollection(value);
+        const slug = collection?.slug ?? value.trim();
+        const collectionName = collection?.display.collectionName ?? slug;
+
+        const stats = await tensorService.getCollectionStats(slug);
+        const create =
+          interaction.commandName === "floor"
+            ? createDiscordFloorEmbed
+            : createDiscordStatsEmbed;
+
+        return [create(slug, stats, collectionName).embed];
+      }
+      case "lastsales": {
+        const value = interaction.options.getString("collection", true);
+        const count = interaction.options.getInteger("n") ?? DEFAULT_LAST_SALES;
+        const collection = this.findCollection(value);
+
+        if (!collection) {
+          throw new CommandError(`${value} isn't a tracked collection`);
+        }
+
+        const transactions = await tensorService.getRecentTransactions(
+          collection.slug,
+          LAST_SALES_LOOKBACK
+        );
+
+        const sales = transactions
+          .filter(
+            (transaction) =>
+              getNotificationKind(transaction.tx.txType) === "sale"
+          )
+          .sort((a, b) => parseTxAt(b.tx.txAt) - parseTxAt(a.tx.txAt))
+          .slice(0, Math.min(count, MAX_LAST_SALES));
+
+        if (sales.length === 0) {
+          throw new CommandError(
+            `No recent sales for ${collection.display.collectionName}`
+          );
+        }
+
+        const embeds: EmbedBuilder[] = [];
+
+        for (const transaction of sales) {
+          const event = await this.deps.createEvent(
+            "sale",
+            transaction,
+            collection
+          );
+          embeds.push(
+            createDiscordEmbed(event, null, collection.templates.discord.sale)
+              .embed
+          );
+        }
+
+        return embeds;
+      }
+      case "rarity": {
+        const mint = await tensorService.getMint(
+          interaction.options.getString("mint", true).trim()
+        );
+        const collection = mint.slug
+          ? this.deps.collections.find(({ slug }) => slug === mint.slug)
+          : undefined;
+        const stats = mint.slug
+          ? await tensorService.getCollectionStats(mint.slug)
+          : null;
+
+        const rarity = getRarity(
+          mint,
+          stats?.numMints,
+          collection?.rarity ?? DEFAULT_RARITY_CONFIG
+        );
+
+        return [
+          createDiscordRarityEmbed(
+            mint,
+            rarity,
+            collection?.display.traitName ?? ""
+          ).embed,
+        ];
+      }
+      default:
+        throw new CommandError(`Unknown command /${interaction.commandName}`);
+    }
+  }
+}
+
+// a problem with the input, shown to the user as it is
+class CommandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandError";
+  }
+}
+
+function describeError(err: unknown): string {
+  if (err instanceof CommandError) {
+    return err.message;
+  }
+
+  if (err instanceof GraphQLNotFoundError) {
+    return "Tensor doesn't know that collection or mint.";
+  }
+
+  if (err instanceof GraphQLRateLimitError) {
+    return "Tensor is rate limiting us, try again in a minute.";
+  }
+
+  return "Something went wrong, try again later.";
+}
+
+export default DiscordBot;
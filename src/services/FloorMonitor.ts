@@ -0,0 +1,175 @@
+import { FloorAlertConfig } from "../config";
+import { FloorAlert, LAMPORTS_PER_SOL } from "../notifications";
+import { TensorApi } from "./TensorService";
+
+interface WatchedSlug {
+  config: FloorAlertConfig;
+  timer: NodeJS.Timeout;
+  samples: { at: number; floor: number }[];
+  previousFloor: number | null;
+  // alert key -> time it last fired
+  lastAlerts: Map<string, number>;
+}
+
+/**
+ * Polls collection stats and raises an alert when the floor moves by more
+ * than the configured percentage within the window, or crosses one of the
+ * fixed SOL thresholds. Every kind of alert has its own cooldown.
+ */
+class FloorMonitor {
+  private tensorService: TensorApi;
+  private onAlert: (alert: FloorAlert) => void;
+  private watched = new Map<string, WatchedSlug>();
+
+  constructor(tensorService: TensorApi, onAlert: (alert: FloorAlert) => void) {
+    this.tensorService = tensorService;
+    this.onAlert = onAlert;
+  }
+
+  public watch(slug: string, config: FloorAlertConfig): void {
+    this.unwatch(slug);
+
+    const pollMs = config.pollSeconds * 1000;
+
+    this.watched.set(slug, {
+      config,
+      timer: setInterval(() => this.poll(slug), pollMs),
+      samples: [],
+      previousFloor: null,
+      lastAlerts: new Map(),
+    });
+
+    this.poll(slug);
+  }
+
+  public unwatch(slug: string): void {
+    const watched = this.watched.get(slug);
+
+    if (watched) {
+      clearInterval(watched.timer);
+      this.watched.delete(slug);
+    }
+  }
+
+  private async poll(slug: string): Promise<void> {
+    const watched = this.watched.get(slug);
+
+    if (!watched) {
+      return;
+    }
+
+    let floor: number;
+
+    try {
+      const stats = await this.tensorService.getCollectionStats(
+        slug,
+        watched.config.pollSeconds * 1000
+      );
+      floor = parseInt(stats.buyNowPriceNetFees ?? "", 10) / LAMPORTS_PER_SOL;
+    } catch (err) {
+      console.error(`Failed to poll floor of ${slug}`, err);
+      return;
+    }
+
+    if (!Number.isFinite(floor) || floor <= 0) {
+      return;
+    }
+
+    this.checkThresholds(slug, watched, floor);
+    this.checkWindow(slug, watched, floor);
+
+    watched.previousFloor = floor;
+  }
+
+  private checkThresholds(slug: string, watched: WatchedSlug, floor: number) {
+    const previous = watched.previousFloor;
+
+    if (previous == null) {
+      return;
+    }
+
+    for (const threshold of watched.config.thresholds) {
+      if (previous < threshold && floor >= threshold) {
+        this.fire(watched, `threshold:${threshold}:up`, {
+          slug,
+          reason: "threshold",
+          direction: "up",
+          previousFloor: previous,
+          currentFloor: floor,
+          changePercent: ((floor - previous) / previous) * 100,
+          threshold,
+        });
+      } else if (previous >= threshold && floor < threshold) {
+        this.fire(watched, `threshold:${threshold}:down`, {
+          slug,
+          reason: "threshold",
+          direction: "down",
+          previousFloor: previous,
+          currentFloor: floor,
+          changePercent: ((floor - previous) / previous) * 100,
+          threshold,
+        });
+      }
+    }
+  }
+
+  private checkWindow(slug: string, watched: WatchedSlug, floor: number) {
+    const { percent, windowMinutes } = watched.config;
+    const now = Date.now();
+    const windowStart = now - windowMinutes * 60 * 1000;
+
+    watched.samples = watched.samples.filter(
+      (sample) => sample.at >= windowStart
+    );
+
+    if (percent > 0 && watched.samples.length > 0) {
+      const floors = watched.samples.map((sample) => sample.floor);
+      const low = Math.min(...floors);
+      const high = Math.max(...floors);
+
+      const rise = ((floor - low) / low) * 100;
+      const drop = ((floor - high) / high) * 100;
+
+      const alert =
+        rise >= percent
+          ? { direction: "up" as const, previousFloor: low, change: rise }
+          : -drop >= percent
+          ? { direction: "down" as const, previousFloor: high, change: drop }
+          : null;
+
+      if (alert) {
+        const fired = this.fire(watched, `window:${alert.direction}`, {
+          slug,
+          reason: "percent",
+          direction: alert.direction,
+          previousFloor: alert.previousFloor,
+          currentFloor: floor,
+          changePercent: alert.change,
+          windowMinutes,
+        });
+
+        // start a fresh window so the same move isn't reported again
+        if (fired) {
+          watched.samples = [];
+        }
+      }
+    }
+
+    watched.samples.push({ at: now, floor });
+  }
+
+  private fire(watched: WatchedSlug, key: string, alert: FloorAlert): boolean {
+    const lastFiredAt = watched.lastAlerts.get(key) ?? 0;
+
+    if (Date.now() - lastFiredAt < watched.config.cooldownMinutes * 60 * 1000) {
+      return false;
+    }
+
+    watched.lastAlerts.set(key, Date.now());
+    this.onAlert(alert);
+
+    return true;
+  }
+}
+
+export default FloorMonitor;
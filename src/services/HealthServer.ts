@@ -0,0 +1,97 @@
+import { Server, createServer } from "http";
+import { Registry } from "../lib/metrics";
+import { TensorApi } from "./TensorService";
+
+export interface HealthServerOptions {
+  port: number;
+  // not ready when nothing, not even a pong, arrived for this long
+  maxMessageAgeMs: number;
+}
+
+/**
+ * Serves /healthz (the process is up), /readyz (connected to Tensor, every
+ * subscription acknowledged and the socket not silent) and /metrics for
+ * Prometheus.
+ */
+class HealthServer {
+  private tensorService: TensorApi;
+  private registry: Registry;
+  private options: HealthServerOptions;
+  private server: Server | null = null;
+
+  constructor(
+    tensorService: TensorApi,
+    registry: Registry,
+    options: HealthServerOptions
+  ) {
+    this.tensorService = tensorService;
+    this.registry = registry;
+    this.options = options;
+  }
+
+  public start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+      switch (path) {
+        case "/healthz":
+          res.writeHead(200, { "Content-Type": "text/plain" });
+          res.end("ok\n");
+          return;
+        case "/readyz": {
+          const readiness = this.getReadiness();
+          res.writeHead(readiness.ready ? 200 : 503, {
+            "Content-Type": "application/json",
+          });
+          res.end(JSON.stringify(readiness));
+          return;
+        }
+        case "/metrics":
+          res.writeHead(200, {
+            "Content-Type": "text/plain; version=0.0.4",
+          });
+          res.end(this.registry.render());
+          return;
+        default:
+          res.writeHead(404, { "Content-Type": "text/plain" });
+          res.end("not found\n");
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.options.port, () => {
+        console.log(`Health server listening on port ${this.options.port}`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+
+  private getReadiness() {
+    const connected = this.tensorService.isConnected();
+    const subscriptions = this.tensorService.getSubscriptions();
+    const lastMessageAt = this.tensorService.getLastMessageAt();
+    const lastMessageAgeMs =
+      lastMessageAt == null ? null : Date.now() - lastMessageAt;
+
+    const subscribed = subscriptions.every(({ state }) => state === "active");
+    const recent =
+      lastMessageAgeMs != null &&
+      lastMessageAgeMs <= this.options.maxMessageAgeMs;
+
+    return {
+      ready: connected && subscribed && recent,
+      connected,
+      subscriptions,
+      lastMessageAgeMs,
+    };
+  }
+}
+
+export default HealthServer;
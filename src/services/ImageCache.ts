@@ -0,0 +1,155 @@
+import { fileTypeFromBuffer } from "file-type";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+import { ImageBuffer, getImageBuffer, normalizeImage } from "../lib/images";
+
+/**
+ * NFT art by mint, downloaded once and converted to a format every sink
+ * accepts. Kept on disk so restarts and repeat sales don't download it again,
+ * the least recently used files are removed beyond the limit. Without a
+ * directory nothing is cached.
+ */
+class ImageCache {
+  private dir: string;
+  private maxFiles: number;
+  // mint to file name, the extension depends on the format
+  private files = new Map<string, string>();
+  private loading = new Map<string, Promise<ImageBuffer | null>>();
+
+  constructor(dir: string, maxFiles: number) {
+    this.dir = dir;
+    this.maxFiles = maxFiles;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.dir) {
+      return;
+    }
+
+    try {
+      for (const file of await readdir(this.dir)) {
+        const mint = file.split(".")[0];
+
+        if (mint && !file.endsWith(".tmp")) {
+          this.files.set(mint, file);
+        }
+      }
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${this.dir}, starting empty`, err);
+      }
+    }
+  }
+
+  public get(mint: string, imageUri: string): Promise<ImageBuffer | null> {
+    // sinks of one message ask at the same time, download once
+    if (!this.loading.has(mint)) {
+      this.loading.set(
+        mint,
+        this.fetch(mint, imageUri).finally(() => this.loading.delete(mint))
+      );
+    }
+
+    return this.loading.get(mint)!;
+  }
+
+  private async fetch(
+    mint: string,
+    imageUri: string
+  ): Promise<ImageBuffer | null> {
+    const cached = await this.read(mint);
+
+    if (cached) {
+      return cached;
+    }
+
+    const downloaded = await getImageBuffer(imageUri);
+    const image = downloaded && (await normalizeImage(downloaded));
+
+    if (image) {
+      await this.write(mint, image);
+    }
+
+    return image;
+  }
+
+  private async read(mint: string): Promise<ImageBuffer | null> {
+    const file = this.files.get(mint);
+
+    if (!this.dir || !file) {
+      return null;
+    }
+
+    try {
+      const path = join(this.dir, file);
+      const buffer = await readFile(path);
+      const now = new Date();
+      await utimes(path, now, now);
+
+      return { buffer, fileType: await fileTypeFromBuffer(buffer) };
+    } catch (err) {
+      console.error(`Failed to read cached image ${file}`, err);
+      this.files.delete(mint);
+      return null;
+    }
+  }
+
+  private async write(mint: string, image: ImageBuffer): Promise<void> {
+    if (!this.dir) {
+      return;
+    }
+
+    const file = `${mint}.${image.fileType?.ext ?? "bin"}`;
+
+    try {
+      const tmpPath = join(this.dir, `${file}.tmp`);
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(tmpPath, image.buffer);
+      await rename(tmpPath, join(this.dir, file));
+      this.files.set(mint, file);
+    } catch (err) {
+      console.error(`Failed to cache image ${file}`, err);
+      return;
+    }
+
+    if (this.files.size > this.maxFiles) {
+      await this.prune();
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const entries = await Promise.all(
+      Array.from(this.files.entries()).map(async ([mint, file]) => {
+        try {
+          return {
+            mint,
+            file,
+            usedAt: (await stat(join(this.dir, file))).mtimeMs,
+          };
+        } catch (err) {
+          return { mint, file, usedAt: 0 };
+        }
+      })
+    );
+
+    const excess = entries
+      .sort((a, b) => a.usedAt - b.usedAt)
+      .slice(0, entries.length - this.maxFiles);
+
+    for (const { mint, file } of excess) {
+      this.files.delete(mint);
+      await unlink(join(this.dir, file)).catch(() => undefined);
+    }
+  }
+}
+
+export default ImageCache;
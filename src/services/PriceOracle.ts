@@ -0,0 +1,169 @@
+import { PriceProvider } from "../lib/prices";
+import { priceProviderFailures } from "../metrics";
+
+export interface PriceQuote {
+  // price of one token, by lowercase currency code
+  prices: { [currency: string]: number };
+  // when the oldest of the prices was fetched
+  fetchedAt: number;
+  // every provider failed and some of the prices are the last known ones
+  stale: boolean;
+}
+
+export interface PriceOracleOptions {
+  // prices younger than this are served without asking the providers
+  cacheMs?: number;
+  // last known prices older than this are not served at all
+  maxStaleMs?: number;
+}
+
+interface CachedPrice {
+  price: number;
+  fetchedAt: number;
+}
+
+/**
+ * Token prices from a chain of providers, each one filling in what the ones
+ * before it failed to provide. When they all fail the last known price is
+ * served, marked stale, so a price outage doesn't hold up the posts.
+ */
+class PriceOracle {
+  private providers: PriceProvider[];
+  private options: Required<PriceOracleOptions>;
+  private cache = new Map<string, CachedPrice>();
+  private refreshing = new Map<string, Promise<void>>();
+
+  constructor(providers: PriceProvider[], options: PriceOracleOptions = {}) {
+    this.providers = providers;
+    this.options = {
+      cacheMs: options.cacheMs ?? 5 * 60 * 1000,
+      maxStaleMs: options.maxStaleMs ?? 24 * 60 * 60 * 1000,
+    };
+  }
+
+  /**
+   * Quotes by mint, tokens without any usable price are left out.
+   */
+  public async getQuotes(
+    mints: string[],
+    currencies: string[]
+  ): Promise<{ [mint: string]: PriceQuote }> {
+    const missing = this.getMissing(mints, currencies);
+
+    if (missing) {
+      await this.refresh(missing.mints, missing.currencies);
+    }
+
+    const now = Date.now();
+    const quotes: { [mint: string]: PriceQuote } = {};
+
+    for (const mint of mints) {
+      const quote: PriceQuote = { prices: {}, fetchedAt: now, stale: false };
+
+      for (const currency of currencies) {
+        const cached = this.cache.get(`${mint}:${currency}`);
+
+        if (!cached || now - cached.fetchedAt > this.options.maxStaleMs) {
+          continue;
+        }
+
+        quote.prices[currency] = cached.price;
+        quote.fetchedAt = Math.min(quote.fetchedAt, cached.fetchedAt);
+        quote.stale ||= now - cached.fetchedAt > this.options.cacheMs;
+      }
+
+      if (Object.keys(quote.prices).length > 0) {
+        quotes[mint] = quote;
+      }
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Tokens and currencies that have no fresh price for at least one
+   * combination, null when everything is cached.
+   */
+  private getMissing(
+    mints: string[],
+    currencies: string[]
+  ): { mints: string[]; currencies: string[] } | null {
+    const missing = mints.flatMap((mint) =>
+      currencies
+        .filter((currency) => {
+          const cached = this.cache.get(`${mint}:${currency}`);
+          return (
+            !cached || Date.now() - cached.fetchedAt > this.options.cacheMs
+          );
+        })
+        .map((currency) => ({ mint, currency }))
+    );
+
+    if (missing.length === 0) {
+      return null;
+    }
+
+    return {
+      mints: Array.from(new Set(missing.map(({ mint }) => mint))),
+      currencies: Array.from(new Set(missing.map(({ currency }) => currency))),
+    };
+  }
+
+  /**
+   * Concurrent requests for the same prices share one round of provider
+   * calls.
+   */
+  private refresh(mints: string[], currencies: string[]): Promise<void> {
+    const key = `${mints.join(",")}|${currencies.join(",")}`;
+
+    if (!this.refreshing.has(key)) {
+      this.refreshing.set(
+        key,
+        this.fetchPrices(mints, currencies).finally(() =>
+          this.refreshing.delete(key)
+        )
+      );
+    }
+
+    return this.refreshing.get(key)!;
+  }
+
+  private async fetchPrices(
+    mints: string[],
+    currencies: string[]
+  ): Promise<void> {
+    let remaining: { mints: string[]; currencies: string[] } | null = {
+      mints,
+      currencies,
+    };
+
+    for (const provider of this.providers) {
+      try {
+        const prices = await provider.getPrices(
+          remaining.mints,
+          remaining.currencies
+        );
+        const fetchedAt = Date.now();
+
+        for (const [mint, byCurrency] of Object.entries(prices)) {
+          for (const [currency, price] of Object.entries(byCurrency)) {
+            if (typeof price === "number" && Number.isFinite(price)) {
+              this.cache.set(`${mint}:${currency}`, { price, fetchedAt });
+            }
+          }
+        }
+      } catch (err) {
+        priceProviderFailures.inc({ provider: provider.name });
+        console.error(`Price provider ${provider.name} failed`, err);
+      }
+
+      remaining = this.getMissing(remaining.mints, remaining.currencies);
+
+      if (!remaining) {
+        return;
+      }
+    }
+  }
+}
+
+export default PriceOracle;
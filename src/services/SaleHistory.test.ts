@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createEvent, createTransaction } from "../testing";
+import SaleHistory, {
+  SaleHistoryRecord,
+  SaleQueryError,
+  formatSalesCsv,
+  parseSaleQuery,
+} from "./SaleHistory";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = 1_700_000_000_000;
+
+function sale(txKey: string, at: number, buyerId = "buyer", faction = "") {
+  return createEvent(
+    createTransaction({
+      tx: { txKey, txId: `id-${txKey}`, txAt: at, buyerId },
+      mint: faction
+        ? { attributes: [{ trait_type: "Faction", value: faction }] }
+        : {},
+    })
+  );
+}
+
+async function createHistory() {
+  // an empty path keeps the database in memory
+  const history = new SaleHistory("");
+  await history.load();
+
+  history.record(await sale("a", START));
+  history.record(await sale("b", START + HOUR_MS, "whale", "Outlaws"));
+  history.record(await sale("c", START + 2 * HOUR_MS));
+
+  return history;
+}
+
+function keys(records: SaleHistoryRecord[]): string[] {
+  return records.map(({ txKey }) => txKey);
+}
+
+test("sales are stored once with their event's details", async () => {
+  const history = await createHistory();
+  history.record(await sale("a", START));
+
+  const records = history.query({ limit: 100, offset: 0 });
+  assert.deepEqual(keys(records), ["c", "b", "a"]);
+
+  const { traits, ...record } = records[2];
+  assert.deepEqual(record, {
+    txKey: "a",
+    txId: "id-a",
+    slug: "slug",
+    at: START,
+    mint: "mint",
+    name: "Tensorian #1",
+    imageUri: "https://example.com/1.png",
+    priceSol: 2,
+    paymentSymbol: "SOL",
+    paymentAmount: 2,
+    priceUsd: 300,
+    buyer: "buyer",
+    seller: "seller",
+    rank: 50,
+    rarityTier: "Mythic",
+    tierIndex: 0,
+    source: "TENSORSWAP",
+    txType: "SALE_BUY_NOW",
+  });
+  assert.deepEqual(traits, [{ trait_type: "Faction", value: "Tensorians" }]);
+  history.close();
+});
+
+test("queries filter by time, wallet and trait and page", async () => {
+  const history = await createHistory();
+  const query = { limit: 100, offset: 0 };
+
+  assert.deepEqual(
+    keys(
+      history.query({
+        ...query,
+        from: START + HOUR_MS,
+        to: START + 2 * HOUR_MS,
+      })
+    ),
+    ["b"]
+  );
+  assert.deepEqual(keys(history.query({ ...query, wallet: "whale" })), ["b"]);
+  assert.deepEqual(keys(history.query({ ...query, wallet: "seller" })), [
+    "c",
+    "b",
+    "a",
+  ]);
+  assert.deepEqual(
+    keys(
+      history.query({ ...query, trait: { type: "Faction", value: "Outlaws" } })
+    ),
+    ["b"]
+  );
+  assert.deepEqual(keys(history.query({ ...query, slug: "other" })), []);
+  assert.deepEqual(keys(history.query({ limit: 1, offset: 1 })), ["b"]);
+  history.close();
+});
+
+test("the digest sales are the ones since a time, oldest first", async () => {
+  const history = await createHistory();
+
+  assert.deepEqual(keys(history.getSales("slug", START + HOUR_MS)), ["b", "c"]);
+  assert.deepEqual(keys(history.getSales("other", START)), []);
+  history.close();
+});
+
+test("queries are read from URL parameters", () => {
+  assert.deepEqual(parseSaleQuery(new URLSearchParams()), {
+    slug: undefined,
+    wallet: undefined,
+    from: undefined,
+    to: undefined,
+    limit: 100,
+    offset: 0,
+  });
+
+  assert.deepEqual(
+    parseSaleQuery(
+      new URLSearchParams({
+        slug: "slug",
+        wallet: "whale",
+        from: "2024-05-01",
+        to: "1714608000000",
+        trait: "Eyes:Laser: Red",
+        limit: "10",
+        offset: "20",
+      })
+    ),
+    {
+      slug: "slug",
+      wallet: "whale",
+      from: Date.UTC(2024, 4, 1),
+      to: 1_714_608_000_000,
+      trait: { type: "Eyes", value: "Laser: Red" },
+      limit: 10,
+      offset: 20,
+    }
+  );
+});
+
+test("invalid query parameters are explained", () => {
+  const cases: [{ [name: string]: string }, string][] = [
+    [
+      { from: "yesterday" },
+      "from must be a date like 2024-05-01 or a timestamp in ms",
+    ],
+    [{ limit: "10001" }, "limit must be a whole number up to 10000"],
+    [
+      { offset: "-1" },
+      `offset must be a whole number up to ${Number.MAX_SAFE_INTEGER}`,
+    ],
+    [{ trait: ":Red" }, "trait must look like type:value"],
+    [{ trait: "Eyes" }, "trait must look like type:value"],
+  ];
+
+  for (const [params, message] of cases) {
+    assert.throws(() => parseSaleQuery(new URLSearchParams(params)), {
+      name: SaleQueryError.name,
+      message,
+    });
+  }
+});
+
+test("CSV values are quoted when needed", async () => {
+  const history = await createHistory();
+  const [record] = history.query({ limit: 1, offset: 0 });
+  history.close();
+
+  const csv = formatSalesCsv([
+    {
+      ...record,
+      name: 'Tensorian "One", #1',
+      priceUsd: null,
+      traits: [
+        { trait_type: "Faction", value: "Tensorians" },
+        { trait_type: "Motto", value: "line\nbreak" },
+      ],
+    },
+  ]);
+
+  assert.equal(
+    csv,
+    "at,slug,txId,mint,name,priceSol,paymentSymbol,paymentAmount,priceUsd," +
+      "buyer,seller,rank,rarityTier,source,txType,txKey,traits\n" +
+      `2023-11-15T00:13:20.000Z,slug,id-c,mint,"Tensorian ""One"", #1",2,SOL,2,,` +
+      "buyer,seller,50,Mythic,TENSORSWAP,SALE_BUY_NOW,c," +
+      '"Faction: Tensorians; Motto: line\nbreak"\n'
+  );
+});
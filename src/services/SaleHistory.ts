@@ -0,0 +1,389 @@
+import Database from "better-sqlite3";
+import { mkdir } from "fs/promises";
+import { dirname } from "path";
+import { NotificationEvent } from "../notifications";
+import { parseTxAt } from "./TensorService";
+
+export interface SaleHistoryRecord {
+  txKey: string;
+  txId: string;
+  slug: string;
+  // when the sale happened on chain, in ms
+  at: number;
+  mint: string;
+  name: string;
+  imageUri: string;
+  priceSol: number;
+  paymentSymbol: string;
+  paymentAmount: number;
+  // at the time of the sale, null when no price source knew it
+  priceUsd: number | null;
+  buyer: string;
+  seller: string;
+  rank: number | null;
+  rarityTier: string;
+  // lower is rarer, see Rarity.tierIndex
+  tierIndex: number;
+  traits: { trait_type: string; value: string }[];
+  source: string;
+  txType: string;
+}
+
+export interface SaleQuery {
+  slug?: string;
+  from?: number;
+  to?: number;
+  // buyer or seller
+  wallet?: string;
+  trait?: { type: string; value: string };
+  limit: number;
+  offset: number;
+}
+
+export class SaleQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SaleQueryError";
+  }
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 10000;
+
+// the columns in CSV exports, traits come last
+const CSV_COLUMNS: (keyof SaleHistoryRecord)[] = [
+  "at",
+  "slug",
+  "txId",
+  "mint",
+  "name",
+  "priceSol",
+  "paymentSymbol",
+  "paymentAmount",
+  "priceUsd",
+  "buyer",
+  "seller",
+  "rank",
+  "rarityTier",
+  "source",
+  "txType",
+  "txKey",
+  "traits",
+];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sales (
+    tx_key TEXT PRIMARY KEY,
+    tx_id TEXT NOT NULL,
+    slug TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    mint TEXT NOT NULL,
+    name TEXT NOT NULL,
+    image_uri TEXT NOT NULL,
+    price_sol REAL NOT NULL,
+    payment_symbol TEXT NOT NULL,
+    payment_amount REAL NOT NULL,
+    price_usd REAL,
+    buyer TEXT NOT NULL,
+    seller TEXT NOT NULL,
+    rank INTEGER,
+    rarity_tier TEXT NOT NULL,
+    tier_index INTEGER NOT NULL,
+    traits TEXT NOT NULL,
+    source TEXT NOT NULL,
+    tx_type TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS sales_slug_at ON sales (slug, at);
+  CREATE INDEX IF NOT EXISTS sales_at ON sales (at);
+  CREATE INDEX IF NOT EXISTS sales_buyer ON sales (buyer);
+  CREATE INDEX IF NOT EXISTS sales_seller ON sales (seller);
+`;
+
+interface SaleRow {
+  tx_key: string;
+  tx_id: string;
+  slug: string;
+  at: number;
+  mint: string;
+  name: string;
+  image_uri: string;
+  price_sol: number;
+  payment_symbol: string;
+  payment_amount: number;
+  price_usd: number | null;
+  buyer: string;
+  seller: string;
+  rank: number | null;
+  rarity_tier: string;
+  tier_index: number;
+  traits: string;
+  source: string;
+  tx_type: string;
+}
+
+function fromRow(row: SaleRow): SaleHistoryRecord {
+  return {
+    txKey: row.tx_key,
+    txId: row.tx_id,
+    slug: row.slug,
+    at: row.at,
+    mint: row.mint,
+    name: row.name,
+    imageUri: row.image_uri,
+    priceSol: row.price_sol,
+    paymentSymbol: row.payment_symbol,
+    paymentAmount: row.payment_amount,
+    priceUsd: row.price_usd,
+    buyer: row.buyer,
+    seller: row.seller,
+    rank: row.rank,
+    rarityTier: row.rarity_tier,
+    tierIndex: row.tier_index,
+    traits: JSON.parse(row.traits),
+    source: row.source,
+    txType: row.tx_type,
+  };
+}
+
+/**
+ * Every sale the bot processed, kept in SQLite without a time limit for
+ * analytics and the digests. Without a path the database only lives in
+ * memory. Read only instances are for exporting while the bot
+ * is running.
+ */
+class SaleHistory {
+  private path: string;
+  private readonly: boolean;
+  private db: Database.Database | null = null;
+
+  constructor(path: string, options: { readonly?: boolean } = {}) {
+    this.path = path;
+    this.readonly = options.readonly ?? false;
+  }
+
+  public async load(): Promise<void> {
+    if (this.readonly) {
+      this.db = new Database(this.path, {
+        readonly: true,
+        fileMustExist: true,
+      });
+      return;
+    }
+
+    if (this.path) {
+      await mkdir(dirname(this.path), { recursive: true });
+    }
+
+    this.db = new Database(this.path || ":memory:");
+    // lets exports read while the bot writes
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  public close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
+  public record(event: NotificationEvent): void {
+    const { tx, mint } = event.transaction;
+
+    const row: SaleRow = {
+      tx_key: tx.txKey,
+      tx_id: tx.txId,
+      slug: event.slug,
+      at: parseTxAt(tx.txAt) || Date.now(),
+      mint: mint.onchainId,
+      name: mint.name,
+      image_uri: mint.imageUri,
+      price_sol: event.solPrice,
+      payment_symbol: event.paymentSymbol,
+      payment_amount: event.paymentAmount,
+      price_usd: event.usdPrice,
+      buyer: tx.buyerId,
+      seller: tx.sellerId,
+      rank: event.rarity.rank,
+      rarity_tier: event.rarity.tier,
+      tier_index: event.rarity.tierIndex,
+      traits: JSON.stringify(mint.attributes),
+      source: tx.source,
+      tx_type: tx.txType,
+    };
+
+    try {
+      // a sale handled twice, e.g. by a replay, is stored once
+      this.getDb()
+        .prepare(
+          `INSERT OR IGNORE INTO sales VALUES (
+            @tx_key, @tx_id, @slug, @at, @mint, @name, @image_uri, @price_sol,
+            @payment_symbol, @payment_amount, @price_usd, @buyer, @seller,
+            @rank, @rarity_tier, @tier_index, @traits, @source, @tx_type
+          )`
+        )
+        .run(row);
+    } catch (err) {
+      console.error(`Failed to store sale ${tx.txId} in the history`, err);
+    }
+  }
+
+  /**
+   * Matching sales, newest first.
+   */
+  public query(query: SaleQuery): SaleHistoryRecord[] {
+    const conditions: string[] = [];
+    const params: { [name: string]: string | number } = {};
+
+    if (query.slug) {
+      conditions.push("slug = @slug");
+      params.slug = query.slug;
+    }
+
+    if (query.from != null) {
+      conditions.push("at >= @from");
+      params.from = query.from;
+    }
+
+    if (query.to != null) {
+      conditions.push("at < @to");
+      params.to = query.to;
+    }
+
+    if (query.wallet) {
+      conditions.push("(buyer = @wallet OR seller = @wallet)");
+      params.wallet = query.wallet;
+    }
+
+    if (query.trait) {
+      conditions.push(
+        `EXISTS (SELECT 1 FROM json_each(sales.traits)
+          WHERE json_extract(value, '$.trait_type') = @traitType
+          AND json_extract(value, '$.value') = @traitValue)`
+      );
+      params.traitType = query.trait.type;
+      params.traitValue = query.trait.value;
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+    const rows = this.getDb()
+      .prepare(
+        `SELECT * FROM sales ${where} ORDER BY at DESC, tx_key
+          LIMIT @limit OFFSET @offset`
+      )
+      .all({ ...params, limit: query.limit, offset: query.offset });
+
+    return (rows as SaleRow[]).map(fromRow);
+  }
+
+  /**
+   * Every sale of a collection that happened on chain since `since`, for the
+   * digests.
+   */
+  public getSales(slug: string, since: number): SaleHistoryRecord[] {
+    const rows = this.getDb()
+      .prepare("SELECT * FROM sales WHERE slug = ? AND at >= ? ORDER BY at")
+      .all(slug, since);
+
+    return (rows as SaleRow[]).map(fromRow);
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error("SaleHistory used before load()");
+    }
+    return this.db;
+  }
+}
+
+function parseTime(value: string, name: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+
+  if (!Number.isFinite(time)) {
+    throw new SaleQueryError(
+      `${name} must be a date like 2024-05-01 or a timestamp in ms`
+    );
+  }
+
+  return time;
+}
+
+function parseCount(value: string, name: string, max: number): number {
+  const count = Number(value);
+
+  if (!Number.isInteger(count) || count < 0 || count > max) {
+    throw new SaleQueryError(`${name} must be a whole number up to ${max}`);
+  }
+
+  return count;
+}
+
+/**
+ * Reads a query from URL parameters, used by the HTTP API and the export
+ * command: slug, from, to, wallet, trait as `type:value`, limit and offset.
+ */
+export function parseSaleQuery(params: URLSearchParams): SaleQuery {
+  const from = params.get("from");
+  const to = params.get("to");
+  const trait = params.get("trait");
+  const limit = params.get("limit");
+  const offset = params.get("offset");
+
+  const query: SaleQuery = {
+    slug: params.get("slug") || undefined,
+    wallet: params.get("wallet") || undefined,
+    from: from ? parseTime(from, "from") : undefined,
+    to: to ? parseTime(to, "to") : undefined,
+    limit: limit ? parseCount(limit, "limit", MAX_LIMIT) : DEFAULT_LIMIT,
+    offset: offset ? parseCount(offset, "offset", Number.MAX_SAFE_INTEGER) : 0,
+  };
+
+  if (trait) {
+    const separator = trait.indexOf(":");
+
+    if (separator <= 0) {
+      throw new SaleQueryError("trait must look like type:value");
+    }
+
+    query.trait = {
+      type: trait.slice(0, separator),
+      value: trait.slice(separator + 1),
+    };
+  }
+
+  return query;
+}
+
+function toCsvValue(value: unknown): string {
+  const text =
+    value == null
+      ? ""
+      : Array.isArray(value)
+      ? value
+          .map(
+            ({ trait_type, value }: SaleHistoryRecord["traits"][number]) =>
+              `${trait_type}: ${value}`
+          )
+          .join("; ")
+      : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatSalesCsv(records: SaleHistoryRecord[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+
+  for (const record of records) {
+    lines.push(
+      CSV_COLUMNS.map((column) =>
+        toCsvValue(
+          column === "at" ? new Date(record.at).toISOString() : record[column]
+        )
+      ).join(",")
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+export default SaleHistory;
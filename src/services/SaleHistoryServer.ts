@@ -0,0 +1,86 @@
+import { Server, createServer } from "http";
+import SaleHistory, {
+  SaleQueryError,
+  formatSalesCsv,
+  parseSaleQuery,
+} from "./SaleHistory";
+
+/**
+ * Serves the sale history over HTTP: GET /sales returns JSON, /sales.csv the
+ * same rows as CSV. Both take the filters of parseSaleQuery as query
+ * parameters.
+ */
+class SaleHistoryServer {
+  private history: SaleHistory;
+  private port: number;
+  private server: Server | null = null;
+
+  constructor(history: SaleHistory, port: number) {
+    this.history = history;
+    this.port = port;
+  }
+
+  public start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+
+      if (req.method !== "GET") {
+        res.writeHead(405, { "Content-Type": "text/plain" });
+        res.end("method not allowed\n");
+        return;
+      }
+
+      if (url.pathname !== "/sales" && url.pathname !== "/sales.csv") {
+        res.writeHead(404, { "Content-Type": "text/plain" });
+        res.end("not found\n");
+        return;
+      }
+
+      try {
+        const query = parseSaleQuery(url.searchParams);
+        const sales = this.history.query(query);
+
+        if (url.pathname === "/sales.csv") {
+          res.writeHead(200, { "Content-Type": "text/csv; charset=utf-8" });
+          res.end(formatSalesCsv(sales));
+          return;
+        }
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            sales,
+            limit: query.limit,
+            offset: query.offset,
+          })
+        );
+      } catch (err) {
+        if (err instanceof SaleQueryError) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(JSON.stringify({ error: err.message }));
+          return;
+        }
+
+        console.error(`Failed to query sales for ${req.url}`, err);
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "internal error" }));
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      this.server!.once("error", reject);
+      this.server!.listen(this.port, () => {
+        console.log(`Sale history API listening on port ${this.port}`);
+        resolve();
+      });
+    });
+  }
+
+  public stop(): Promise<void> {
+    return new Promise((resolve) =>
+      this.server ? this.server.close(() => resolve()) : resolve()
+    );
+  }
+}
+
+export default SaleHistoryServer;
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { after, test } from "node:test";
+import { tmpdir } from "os";
+import { join } from "path";
+import SeenTransactionStore from "./SeenTransactionStore";
+import { TensorTransaction } from "./TensorService";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const dir = await mkdtemp(join(tmpdir(), "seen-"));
+after(() => rm(dir, { recursive: true, force: true }));
+
+// writes are chained, waiting for the last one waits for all of them
+function written(store: SeenTransactionStore): Promise<void> {
+  return (store as unknown as { writing: Promise<void> }).writing;
+}
+
+function transaction(txKey: string, txId = `id-${txKey}`) {
+  return { tx: { txKey, txId } } as TensorTransaction;
+}
+
+test("a transaction is claimed once", () => {
+  const store = new SeenTransactionStore("", HOUR_MS);
+
+  assert.equal(store.claim(transaction("a")), true);
+  assert.equal(store.claim(transaction("a")), false);
+  assert.equal(store.claim(transaction("b")), true);
+});
+
+test("events of one transaction are claimed by their txKey", () => {
+  const store = new SeenTransactionStore("", HOUR_MS);
+
+  assert.equal(store.claim(transaction("a", "sweep")), true);
+  assert.equal(store.claim(transaction("b", "sweep")), true);
+  assert.equal(store.claim(transaction("", "plain")), true);
+  assert.equal(store.claim(transaction("", "plain")), false);
+});
+
+test("a released claim can be made again", () => {
+  const store = new SeenTransactionStore("", HOUR_MS);
+
+  store.claim(transaction("a"));
+  store.release(transaction("a"));
+
+  assert.equal(store.claim(transaction("a")), true);
+});
+
+test("claims survive a restart", async () => {
+  const path = join(dir, "restart.json");
+  const store = new SeenTransactionStore(path, HOUR_MS);
+  await store.load();
+  store.claim(transaction("a"));
+  store.claim(transaction("b"));
+  store.release(transaction("b"));
+  await written(store);
+
+  const restarted = new SeenTransactionStore(path, HOUR_MS);
+  await restarted.load();
+
+  assert.equal(restarted.claim(transaction("a")), false);
+  assert.equal(restarted.claim(transaction("b")), true);
+});
+
+test("claims older than the retention expire", async () => {
+  const path = join(dir, "expiry.json");
+  await writeFile(
+    path,
+    JSON.stringify({ old: Date.now() - 2 * HOUR_MS, recent: Date.now() })
+  );
+
+  const store = new SeenTransactionStore(path, HOUR_MS);
+  await store.load();
+
+  assert.equal(store.claim(transaction("old")), true);
+  assert.equal(store.claim(transaction("recent")), false);
+});
+
+test("an unreadable file starts empty", async () => {
+  const path = join(dir, "broken.json");
+  await writeFile(path, "{");
+
+  const store = new SeenTransactionStore(path, HOUR_MS);
+  await store.load();
+
+  assert.equal(store.claim(transaction("a")), true);
+  await written(store);
+  assert.deepEqual(Object.keys(JSON.parse(await readFile(path, "utf8"))), [
+    "a",
+  ]);
+});
@@ -0,0 +1,106 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname } from "path";
+import { TensorTransaction } from "./TensorService";
+
+/**
+ * Remembers which transactions were already announced, persisted to a JSON
+ * file so that replayed frames and restarts don't post the same sale twice.
+ * Without a path it only lives in memory.
+ */
+class SeenTransactionStore {
+  private path: string;
+  private retentionMs: number;
+  // key -> time it was first seen
+  private seen = new Map<string, number>();
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(path: string, retentionMs: number) {
+    this.path = path;
+    this.retentionMs = retentionMs;
+  }
+
+  public static keyOf(transaction: TensorTransaction): string {
+    // txKey is unique per event, a single txId can carry several (sweeps)
+    return transaction.tx.txKey || transaction.tx.txId;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.path) {
+      return;
+    }
+
+    try {
+      const json = JSON.parse(await readFile(this.path, "utf8"));
+      this.seen = new Map(Object.entries(json as Record<string, number>));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read ${this.path}, starting empty`, err);
+      }
+      this.seen = new Map();
+    }
+
+    this.prune();
+  }
+
+  /**
+   * Marks the transaction as seen, returns false if it already was. Claiming
+   * happens before any notifier runs so concurrent duplicates lose the race.
+   */
+  public claim(transaction: TensorTransaction): boolean {
+    const key = SeenTransactionStore.keyOf(transaction);
+
+    if (this.seen.has(key)) {
+      return false;
+    }
+
+    this.seen.set(key, Date.now());
+    this.save();
+
+    return true;
+  }
+
+  /**
+   * Forgets a claim whose announcement failed before anything was queued, so
+   * the transaction can be picked up again.
+   */
+  public release(transaction: TensorTransaction): void {
+    if (this.seen.delete(SeenTransactionStore.keyOf(transaction))) {
+      this.save();
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+
+    for (const [key, seenAt] of this.seen) {
+      if (seenAt < cutoff) {
+        this.seen.delete(key);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    if (!this.path) {
+      this.prune();
+      return this.writing;
+    }
+
+    // chain writes so they never interleave on disk
+    this.writing = this.writing.then(async () => {
+      this.prune();
+
+      try {
+        const tmpPath = `${this.path}.tmp`;
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.seen)));
+        await rename(tmpPath, this.path);
+      } catch (err) {
+        console.error(`Failed to write ${this.path}`, err);
+      }
+    });
+
+    return this.writing;
+  }
+}
+
+export default SeenTransactionStore;
@@ -0,0 +1,54 @@
+import { NotificationEvent } from "../notifications";
+
+/**
+ * Holds sales back for a short window and groups them by buyer and slug, so a
+ * sweep of many items turns into a single post instead of one per item.
+ */
+class SweepAggregator {
+  private pending = new Map<
+    string,
+    { events: NotificationEvent[]; timer: NodeJS.Timeout }
+  >();
+  private onFlush: (events: NotificationEvent[]) => void;
+
+  constructor(onFlush: (events: NotificationEvent[]) => void) {
+    this.onFlush = onFlush;
+  }
+
+  public add(event: NotificationEvent, windowMs: number): void {
+    const buyerId = event.transaction.tx.buyerId;
+
+    // without a buyer there is nothing to group by
+    if (!buyerId || windowMs <= 0) {
+      this.onFlush([event]);
+      return;
+    }
+
+    const key = `${event.slug}:${buyerId}`;
+    const group = this.pending.get(key);
+
+    if (group) {
+      group.events.push(event);
+      return;
+    }
+
+    this.pending.set(key, {
+      events: [event],
+      timer: setTimeout(() => this.flush(key), windowMs),
+    });
+  }
+
+  private flush(key: string): void {
+    const group = this.pending.get(key);
+
+    if (!group) {
+      return;
+    }
+
+    clearTimeout(group.timer);
+    this.pending.delete(key);
+    this.onFlush(group.events);
+  }
+}
+
+export default SweepAggregator;
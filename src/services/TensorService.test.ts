@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createTransaction } from "../testing";
+import TensorService, { LastSeen, TensorTransaction } from "./TensorService";
+
+const MINUTE_MS = 60 * 1000;
+
+// the private state backfilling works on
+interface BackfillState {
+  subscribedSlugs: Map<string, string>;
+  lastSeen: Map<string, LastSeen>;
+  disconnectedAt: number | null;
+  backfill(): Promise<void>;
+}
+
+/**
+ * A service that is never connected, answering recent transaction queries
+ * with `recent` and collecting what it emits.
+ */
+function createService(
+  recent: TensorTransaction[],
+  options: { backfillMaxAgeMs?: number } = {}
+) {
+  const service = new TensorService("ws://localhost", "key", options);
+  const emitted: string[] = [];
+
+  service.getRecentTransactions = async () => recent;
+  service.on("transaction", (transaction, slug) =>
+    emitted.push(`${slug}:${transaction.tx.txKey}`)
+  );
+
+  return {
+    service,
+    state: service as unknown as BackfillState,
+    emitted,
+  };
+}
+
+function sale(txKey: string, txAt: number) {
+  return createTransaction({ tx: { txKey, txAt } });
+}
+
+test("nothing is backfilled on the first connection", async () => {
+  const now = Date.now();
+  const { state, emitted } = createService([sale("a", now)]);
+  state.subscribedSlugs.set("slug", "id");
+
+  await state.backfill();
+
+  assert.deepEqual(emitted, []);
+});
+
+test("a reconnect backfills what came after the last seen transaction", async () => {
+  const now = Date.now();
+  const { state, emitted } = createService([
+    sale("new", now - MINUTE_MS),
+    sale("same-time", now - 5 * MINUTE_MS),
+    sale("seen", now - 5 * MINUTE_MS),
+    sale("old", now - 10 * MINUTE_MS),
+  ]);
+  state.subscribedSlugs.set("slug", "id");
+  state.lastSeen.set("slug", {
+    txAt: now - 5 * MINUTE_MS,
+    txKeys: new Set(["seen"]),
+  });
+  state.disconnectedAt = now - 2 * MINUTE_MS;
+
+  await state.backfill();
+
+  // oldest first, like they happened
+  assert.deepEqual(emitted, ["slug:same-time", "slug:new"]);
+});
+
+test("slugs without a last seen transaction are backfilled from the drop", async () => {
+  const now = Date.now();
+  const { state, emitted } = createService([
+    sale("during", now - MINUTE_MS),
+    sale("before", now - 3 * MINUTE_MS),
+  ]);
+  state.subscribedSlugs.set("slug", "id");
+  state.disconnectedAt = now - 2 * MINUTE_MS;
+
+  await state.backfill();
+
+  assert.deepEqual(emitted, ["slug:during"]);
+  assert.equal(state.disconnectedAt, null);
+});
+
+test("nothing older than backfillMaxAgeMs is backfilled", async () => {
+  const now = Date.now();
+  const { state, emitted } = createService(
+    [sale("recent", now - MINUTE_MS), sale("stale", now - 30 * MINUTE_MS)],
+    { backfillMaxAgeMs: 10 * MINUTE_MS }
+  );
+  state.subscribedSlugs.set("slug", "id");
+  state.disconnectedAt = now - 60 * MINUTE_MS;
+
+  await state.backfill();
+
+  assert.deepEqual(emitted, ["slug:recent"]);
+});
+
+test("the drop counts as last seen while disconnected", () => {
+  const { service, state } = createService([]);
+
+  assert.equal(service.getLastSeen("slug"), undefined);
+
+  state.disconnectedAt = 1000;
+
+  assert.deepEqual(service.getLastSeen("slug"), {
+    txAt: 1000,
+    txKeys: new Set(),
+  });
+});
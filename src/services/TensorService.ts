@@ -1,6 +1,27 @@
 import { randomUUID } from "crypto";
 import { EventEmitter } from "events";
+import { WriteStream, createWriteStream, mkdirSync } from "fs";
+import { dirname } from "path";
 import WebSocket from "ws";
+import {
+  GraphQLClient,
+  GraphQLError,
+  GraphQLNotFoundError,
+  GraphQLOperation,
+  createGraphQLError,
+  parseResult,
+} from "../lib/graphql";
+import {
+  Validator,
+  array,
+  map,
+  nullable,
+  number,
+  object,
+  string,
+  stringOrNumber,
+} from "../lib/schema";
+import { tensorReconnects } from "../metrics";
 
 export interface TensorTransaction {
   tx: {
@@ -9,141 +30,579 @@ export interface TensorTransaction {
     txId: string;
     txType: string;
     grossAmount: string;
-    grossAmountUnit: string;
+    grossAmountUnit: string | null;
+    // empty when the transaction has no seller or buyer, e.g. a bid
     sellerId: string;
     buyerId: string;
-    txAt: string;
+    txAt: string | number;
     txMetadata: {
-      auctionHouse: string;
-      urlId: string;
-      sellerRef: string;
-      tokenAcc: string;
-    };
-    poolOnchainId: string;
+      auctionHouse: string | null;
+      urlId: string | null;
+      sellerRef: string | null;
+      tokenAcc: string | null;
+    } | null;
+    poolOnchainId: string | null;
   };
   mint: {
     onchainId: string;
     name: string;
     imageUri: string;
-    metadataUri: string;
-    metadataFetchedAt: string;
-    sellRoyaltyFeeBPS: number;
-    tokenStandard: string;
-    tokenEdition: number;
+    metadataUri: string | null;
+    metadataFetchedAt: string | number | null;
+    sellRoyaltyFeeBPS: number | null;
+    tokenStandard: string | null;
+    tokenEdition: number | null;
     attributes: {
       trait_type: string;
       value: string;
     }[];
     lastSale: {
-      price: number;
-      priceUnit: string;
-      txAt: string;
-    };
-    accState: string;
-    rarityRankTT: number;
-    rarityRankTTStat: number;
-    rarityRankHR: number;
-    rarityRankTeam: number;
-    rarityRankStat: number;
-    rarityRankTN: number;
+      price: string | number;
+      priceUnit: string | null;
+      txAt: string | number;
+    } | null;
+    accState: string | null;
+    rarityRankTT: number | null;
+    rarityRankTTStat: number | null;
+    rarityRankHR: number | null;
+    rarityRankTeam: number | null;
+    rarityRankStat: number | null;
+    rarityRankTN: number | null;
   };
 }
 
+export type TensorMint = TensorTransaction["mint"];
+
+export interface TensorCollectionStats {
+  currency: string | null;
+  // lamports, null while nothing is listed
+  buyNowPrice: string | null;
+  buyNowPriceNetFees: string | null;
+  sellNowPrice: string | null;
+  sellNowPriceNetFees: string | null;
+  numListed: number | null;
+  // null for collections Tensor doesn't know the supply of
+  numMints: number | null;
+  // floor changes as fractions, e.g. 0.05 for +5%
+  floor1h: number | null;
+  floor24h: number | null;
+  floor7d: number | null;
+  sales1h: number | null;
+  sales24h: number | null;
+  sales7d: number | null;
+  salesAll: number | null;
+  // lamports
+  volume1h: string | number | null;
+  volume24h: string | number | null;
+  volume7d: string | number | null;
+  volumeAll: string | number | null;
+  pctListed: number | null;
+  marketCap: string | number | null;
+}
+
+// a missing id becomes "", which the rest of the bot treats as unknown
+const walletId = map(nullable(string), (value) => value ?? "");
+
+// attribute values are numbers in some metadata
+const attributeValue = map(stringOrNumber, (value) => String(value));
+
+const nullableString = nullable(string);
+const nullableNumber = nullable(number);
+
+const validateMint: Validator<TensorMint> = object({
+  onchainId: string,
+  name: string,
+  imageUri: map(nullableString, (value) => value ?? ""),
+  metadataUri: nullableString,
+  metadataFetchedAt: nullable(stringOrNumber),
+  sellRoyaltyFeeBPS: nullableNumber,
+  tokenStandard: nullableString,
+  tokenEdition: nullableNumber,
+  attributes: map(
+    nullable(
+      array(
+        object({
+          trait_type: string,
+          value: attributeValue,
+        })
+      )
+    ),
+    (value) => value ?? []
+  ),
+  lastSale: nullable(
+    object({
+      price: stringOrNumber,
+      priceUnit: nullableString,
+      txAt: stringOrNumber,
+    })
+  ),
+  accState: nullableString,
+  rarityRankTT: nullableNumber,
+  rarityRankTTStat: nullableNumber,
+  rarityRankHR: nullableNumber,
+  rarityRankTeam: nullableNumber,
+  rarityRankStat: nullableNumber,
+  rarityRankTN: nullableNumber,
+});
+
+export const validateTransaction: Validator<TensorTransaction> = object({
+  tx: object({
+    source: string,
+    txKey: string,
+    txId: string,
+    txType: string,
+    grossAmount: map(stringOrNumber, (value) => String(value)),
+    grossAmountUnit: nullableString,
+    sellerId: walletId,
+    buyerId: walletId,
+    txAt: stringOrNumber,
+    txMetadata: nullable(
+      object({
+        auctionHouse: nullableString,
+        urlId: nullableString,
+        sellerRef: nullableString,
+        tokenAcc: nullableString,
+      })
+    ),
+    poolOnchainId: nullableString,
+  }),
+  mint: validateMint,
+});
+
+const validateCollectionStats: Validator<TensorCollectionStats> = object({
+  currency: nullableString,
+  buyNowPrice: nullableString,
+  buyNowPriceNetFees: nullableString,
+  sellNowPrice: nullableString,
+  sellNowPriceNetFees: nullableString,
+  numListed: nullableNumber,
+  numMints: nullableNumber,
+  floor1h: nullableNumber,
+  floor24h: nullableNumber,
+  floor7d: nullableNumber,
+  sales1h: nullableNumber,
+  sales24h: nullableNumber,
+  sales7d: nullableNumber,
+  salesAll: nullableNumber,
+  volume1h: nullable(stringOrNumber),
+  volume24h: nullable(stringOrNumber),
+  volume7d: nullable(stringOrNumber),
+  volumeAll: nullable(stringOrNumber),
+  pctListed: nullableNumber,
+  marketCap: nullable(stringOrNumber),
+});
+
+export interface TensorServiceOptions {
+  // max number of transactions fetched per slug when filling a gap
+  backfillLimit?: number;
+  // transactions older than this are never backfilled
+  backfillMaxAgeMs?: number;
+  // how long the server has to acknowledge connection_init
+  connectionInitTimeoutMs?: number;
+  keepAliveMs?: number;
+  // reconnect delays grow exponentially from base up to max
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  // append every subscription frame to this NDJSON file, for replays
+  recordPath?: string;
+}
+
+/**
+ * A line of a recording made with `recordPath`.
+ */
+export interface RecordedFrame {
+  receivedAt: number;
+  slug: string | null;
+  frame: { type: string; id?: string; payload?: any };
+}
+
+const LINKED_TX_FRAGMENTS = `
+fragment ReducedLinkedTx on LinkedTransactionTV2 {
+  tx {
+    ...ReducedParsedTx
+    __typename
+  }
+  mint {
+    ...ReducedMint
+    __typename
+  }
+  __typename
+}
+
+fragment ReducedParsedTx on ParsedTransaction {
+  source
+  txKey
+  txId
+  txType
+  grossAmount
+  grossAmountUnit
+  sellerId
+  buyerId
+  txAt
+  txMetadata {
+    auctionHouse
+    urlId
+    sellerRef
+    tokenAcc
+    __typename
+  }
+  poolOnchainId
+  __typename
+}
+
+fragment ReducedMint on TLinkedTxMintTV2 {
+  onchainId
+  name
+  imageUri
+  metadataUri
+  metadataFetchedAt
+  sellRoyaltyFeeBPS
+  tokenStandard
+  tokenEdition
+  attributes {
+    trait_type
+    value
+  }
+  lastSale {
+    price
+    priceUnit
+    txAt
+    __typename
+  }
+  accState
+  ...MintRarityFields
+  __typename
+}
+
+fragment MintRarityFields on TLinkedTxMintTV2 {
+  rarityRankTT
+  rarityRankTTStat
+  rarityRankHR
+  rarityRankTeam
+  rarityRankStat
+  rarityRankTN
+  __typename
+}`;
+
+const INSTRUMENT: GraphQLOperation<
+  { slug: string },
+  { instrumentTV2: { statsV2: TensorCollectionStats } | null }
+> = {
+  name: "Instrument",
+  label: "collection stats",
+  query:
+    "query Instrument($slug: String!) {  instrumentTV2(slug: $slug) {    ...ReducedInstrument    __typename  }}fragment ReducedInstrument on InstrumentTV2 {  id  slug  slugDisplay  compressed  tensorWhitelisted  tensorVerified  tensorUnsupported  hidden  creator  name  symbol  imageUri  description  website  twitter  discord  tokenStandard  sellRoyaltyFeeBPS  statsV2 {    ...CollectionStatsV2    __typename  }  hswapWhitelisted  firstListDate  __typename}fragment CollectionStatsV2 on CollectionStatsV2 {  currency  buyNowPrice  buyNowPriceNetFees  sellNowPrice  sellNowPriceNetFees  numListed  numMints  floor1h  floor24h  floor7d  sales1h  sales24h  sales7d  salesAll  volume1h  volume24h  volume7d  volumeAll  pctListed  marketCap  __typename}",
+  validate: object({
+    instrumentTV2: nullable(object({ statsV2: validateCollectionStats })),
+  }),
+};
+
+const RECENT_TRANSACTIONS: GraphQLOperation<
+  { slug: string; limit: number },
+  { recentTransactions: { txs: TensorTransaction[] } }
+> = {
+  name: "RecentTransactions",
+  label: "recent transactions",
+  query: `query RecentTransactions($slug: String!, $limit: Int) {
+    recentTransactions(slug: $slug, limit: $limit) {
+      txs {
+        ...ReducedLinkedTx
+        __typename
+      }
+      __typename
+    }
+  }
+
+  ${LINKED_TX_FRAGMENTS}`,
+  validate: object({
+    recentTransactions: object({ txs: array(validateTransaction) }),
+  }),
+};
+
+const NEW_TRANSACTION: GraphQLOperation<
+  { slug: string },
+  { newTransactionTV2: TensorTransaction | null }
+> = {
+  name: "NewTransaction",
+  label: "new transaction",
+  query: `subscription NewTransaction($slug: String!) {
+    newTransactionTV2(slug: $slug) {
+      ...ReducedLinkedTx
+      __typename
+    }
+  }
+
+  ${LINKED_TX_FRAGMENTS}`,
+  validate: object({ newTransactionTV2: nullable(validateTransaction) }),
+};
+
+const MINT: GraphQLOperation<
+  { mint: string },
+  { mint: (TensorMint & { slug: string | null }) | null }
+> = {
+  name: "Mint",
+  label: "mint",
+  query: `query Mint($mint: String!) {
+    mint(mint: $mint) {
+      slug
+      onchainId
+      name
+      imageUri
+      metadataUri
+      attributes {
+        trait_type
+        value
+      }
+      rarityRankTT
+      rarityRankTTStat
+      rarityRankHR
+      rarityRankTeam
+      rarityRankStat
+      rarityRankTN
+      __typename
+    }
+  }`,
+  validate: object({
+    mint: nullable((value, path) => ({
+      ...validateMint(value, path),
+      slug: nullableString((value as { slug?: unknown }).slug, `${path}.slug`),
+    })),
+  }),
+};
+
+export function parseTxAt(txAt: string | number): number {
+  const asNumber = Number(txAt);
+  return Number.isNaN(asNumber) ? new Date(txAt).getTime() : asNumber;
+}
+
+export type SubscriptionState =
+  // waiting for the socket to (re)connect
+  | "pending"
+  | "active"
+  // failed or completed by the server, a resubscribe is scheduled
+  | "retrying";
+
+export interface SubscriptionInfo {
+  slug: string;
+  id: string;
+  state: SubscriptionState;
+  // index of the pooled connection the slug is on
+  connection?: number;
+}
+
+/**
+ * The newest transaction seen for a slug, transactions after it are
+ * backfilled when the slug was offline.
+ */
+export interface LastSeen {
+  txAt: number;
+  txKeys: Set<string>;
+}
+
+/**
+ * What the rest of the bot needs from Tensor, provided by a single
+ * connection as well as by TensorServicePool.
+ */
+export interface TensorApi {
+  isConnected(): boolean;
+  getLastMessageAt(): number | null;
+  getSubscriptions(): SubscriptionInfo[];
+  getCollectionStats(
+    slug: string,
+    maxAgeMs?: number
+  ): Promise<TensorCollectionStats>;
+  getMint(mint: string): Promise<TensorMint & { slug: string | null }>;
+  getRecentTransactions(
+    slug: string,
+    limit: number
+  ): Promise<TensorTransaction[]>;
+}
+
 declare interface TensorService {
   on(
     event: "transaction",
     listener: (transaction: TensorTransaction, slug: string) => void
   ): this;
+  on(event: "connected", listener: () => void): this;
+  on(
+    event: "disconnected",
+    listener: (code: number, reason: string) => void
+  ): this;
+  on(
+    event: "subscriptionError",
+    listener: (slug: string, errors: GraphQLError[]) => void
+  ): this;
   on(
     event: string,
     listener: (transaction: TensorTransaction, slug: string) => void
   ): this;
   on(event: string, listener: Function): this;
+  emit(event: "connected"): boolean;
+  emit(event: "disconnected", code: number, reason: string): boolean;
+  emit(
+    event: "subscriptionError",
+    slug: string,
+    errors: GraphQLError[]
+  ): boolean;
   emit(event: any, transaction: TensorTransaction, slug: string): boolean;
 }
 
-class TensorService extends EventEmitter {
+class TensorService extends EventEmitter implements TensorApi {
   private url: string;
   private ws: WebSocket | null;
   private apiKey: string;
+  private client: GraphQLClient;
   private is_connected: boolean;
   // store id of subscription to unsubscribe later
   private subscribedSlugs = new Map<string, string>();
+  private subscriptionStates = new Map<string, SubscriptionState>();
   private timer: NodeJS.Timeout | null = null;
+  // reconnecting only starts once the first connection was acknowledged
+  private hasConnected = false;
+  private reconnectAttempts = 0;
+  private lastMessageAt: number | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private resubscribeAttempts = new Map<string, number>();
+  // newest transaction seen per slug, used to fill gaps after reconnecting
+  private lastSeen = new Map<string, LastSeen>();
+  // when an acknowledged connection dropped, the gap of slugs without one
+  private disconnectedAt: number | null = null;
+  private options: Required<TensorServiceOptions>;
 
   // basic cache
-  private cache = new Map<string, { expires: number; data: any }>();
+  private cache = new Map<
+    string,
+    { fetchedAt: number; data: TensorCollectionStats }
+  >();
+  private recording: WriteStream | null = null;
 
-  constructor(url: string, apiKey: string) {
+  constructor(url: string, apiKey: string, options: TensorServiceOptions = {}) {
     super();
     this.url = url;
     this.ws = null;
     this.is_connected = false;
     this.apiKey = apiKey;
+    this.client = new GraphQLClient("tensor", url, {
+      "X-TENSOR-API-KEY": apiKey,
+    });
+    this.options = {
+      backfillLimit: options.backfillLimit ?? 50,
+      backfillMaxAgeMs: options.backfillMaxAgeMs ?? 60 * 60 * 1000,
+      connectionInitTimeoutMs: options.connectionInitTimeoutMs ?? 10_000,
+      keepAliveMs: options.keepAliveMs ?? 30_000,
+      reconnectBaseDelayMs: options.reconnectBaseDelayMs ?? 1_000,
+      reconnectMaxDelayMs: options.reconnectMaxDelayMs ?? 60_000,
+      recordPath: options.recordPath ?? "",
+    };
+
+    if (this.options.recordPath) {
+      mkdirSync(dirname(this.options.recordPath), { recursive: true });
+      this.recording = createWriteStream(this.options.recordPath, {
+        flags: "a",
+      });
+      console.log(`Recording frames to ${this.options.recordPath}`);
+    }
   }
 
+  /**
+   * Opens the socket and resolves once the server acknowledged the
+   * connection. Rejects if that doesn't happen, after the first successful
+   * connect every drop is retried with backoff instead.
+   */
   public async connect(): Promise<void> {
     return new Promise((resolve, reject) => {
       const wsUrl = this.url.replace(/^http/, "ws");
-      this.ws = new WebSocket(wsUrl, ["graphql-transport-ws"], {
+      const ws = new WebSocket(wsUrl, ["graphql-transport-ws"], {
         followRedirects: true,
         headers: {
           "X-TENSOR-API-KEY": this.apiKey,
         },
       });
+      this.ws = ws;
 
-      this.ws.on("open", () => {
-        this.is_connected = true;
-        console.log("Connected to Tensor!");
+      let initTimeout: NodeJS.Timeout | null = null;
 
-        // send keepalive message every 30 seconds
-        this.timer = setInterval(() => {
-          this.ws?.send(JSON.stringify({ type: "ping" }));
-        }, 30000);
+      ws.on("open", () => {
+        // send connection_init message, the server must ack it in time
+        ws.send(JSON.stringify({ type: "connection_init" }));
 
-        // send connection_init message
-        this.send(
-          JSON.stringify({
-            type: "connection_init",
-          })
-        );
+        initTimeout = setTimeout(() => {
+          reject(new Error("Timed out waiting for connection_ack"));
+          ws.terminate();
+        }, this.options.connectionInitTimeoutMs);
+      });
 
-        this.ws?.on("message", (data) => {
-          const json = JSON.parse(data.toString());
-          if (json?.type === "pong") {
-            return;
-          }
-          if (json?.type === "connection_ack") {
-            resolve();
-          }
-          if (json?.payload?.data?.newTransactionTV2) {
-            const transaction = json.payload.data
-              .newTransactionTV2 as TensorTransaction;
-            const id = json.id;
+      ws.on("message", (data) => {
+        this.lastMessageAt = Date.now();
 
-            // find slug by id which is value in map
-            const slug = Array.from(this.subscribedSlugs.entries())
-              .find(([key, value]) => value === id)
-              ?.at(0);
+        let json: any;
 
-            this.handleTransaction(transaction, slug);
-          }
-        });
+        try {
+          json = JSON.parse(data.toString());
+        } catch (err) {
+          console.error("Received invalid message from Tensor", err);
+          return;
+        }
 
-        this.subscribedSlugs.forEach((id, slug) =>
-          this.subscribeToSlug(slug, true)
-        );
+        switch (json?.type) {
+          case "connection_ack":
+            initTimeout && clearTimeout(initTimeout);
+            this.onConnectionAck();
+            resolve();
+            break;
+          case "ping":
+            ws.send(JSON.stringify({ type: "pong" }));
+            break;
+          case "next":
+            this.record(json);
+            this.onNext(json.id, json.payload);
+            break;
+          case "error":
+            this.record(json);
+            this.onSubscriptionError(json.id, json.payload);
+            break;
+          case "complete":
+            this.record(json);
+            this.onSubscriptionComplete(json.id);
+            break;
+        }
       });
 
-      this.ws.on("close", (code: number, reason: string) => {
+      ws.on("close", (code: number, reason: Buffer) => {
+        initTimeout && clearTimeout(initTimeout);
+        this.timer && clearInterval(this.timer);
+        this.timer = null;
+
+        // a socket replaced by a newer connection has nothing left to do
+        if (this.ws !== ws) {
+          return;
+        }
+
+        const wasConnected = this.is_connected;
         this.is_connected = false;
+
+        // failed reconnects keep the time of the first drop
+        if (wasConnected && this.disconnectedAt == null) {
+          this.disconnectedAt = Date.now();
+        }
+
+        this.subscribedSlugs.forEach((id, slug) =>
+          this.subscriptionStates.set(slug, "pending")
+        );
         console.log("Disconnected from Tensor!", code, reason.toString());
-        // Reconnect
-        this.timer && clearInterval(this.timer);
-        this.connect();
+
+        reject(new Error(`Connection closed (${code})`));
+
+        if (wasConnected) {
+          this.emit("disconnected", code, reason.toString());
+        }
+
+        if (this.hasConnected) {
+          this.scheduleReconnect();
+        }
       });
 
-      this.ws.on("error", (error) => {
+      ws.on("error", (error) => {
         console.log("Error: ", error);
       });
     });
@@ -157,6 +616,146 @@ class TensorService extends EventEmitter {
     }
   }
 
+  private onConnectionAck(): void {
+    this.is_connected = true;
+    this.hasConnected = true;
+    this.reconnectAttempts = 0;
+    console.log("Connected to Tensor!");
+
+    // send keepalive message every 30 seconds
+    this.timer = setInterval(() => {
+      this.send(JSON.stringify({ type: "ping" }));
+    }, this.options.keepAliveMs);
+
+    this.subscribedSlugs.forEach((id, slug) =>
+      this.subscribeToSlug(slug, true)
+    );
+
+    this.emit("connected");
+    this.backfill();
+  }
+
+  private record(frame: RecordedFrame["frame"]): void {
+    if (!this.recording) {
+      return;
+    }
+
+    const line: RecordedFrame = {
+      receivedAt: Date.now(),
+      slug: frame.id ? this.getSlugById(frame.id) ?? null : null,
+      frame,
+    };
+
+    this.recording.write(`${JSON.stringify(line)}\n`);
+  }
+
+  private onNext(id: string, payload: unknown): void {
+    const slug = this.getSlugById(id);
+
+    if (!slug) {
+      return;
+    }
+
+    let transaction: TensorTransaction | null;
+
+    try {
+      transaction = parseResult(NEW_TRANSACTION, payload).newTransactionTV2;
+    } catch (err) {
+      console.error(`Ignoring transaction for slug ${slug}`, err);
+      return;
+    }
+
+    if (!transaction) {
+      return;
+    }
+
+    this.resubscribeAttempts.delete(slug);
+
+    this.handleTransaction(transaction, slug);
+  }
+
+  private onSubscriptionError(id: string, errors: GraphQLError[]): void {
+    const slug = this.getSlugById(id);
+
+    if (!slug) {
+      return;
+    }
+
+    console.error(
+      `Subscription for slug ${slug} failed`,
+      createGraphQLError(NEW_TRANSACTION.label, errors)
+    );
+    this.subscriptionStates.set(slug, "retrying");
+    this.emit("subscriptionError", slug, errors);
+    this.scheduleResubscribe(slug, id);
+  }
+
+  private onSubscriptionComplete(id: string): void {
+    const slug = this.getSlugById(id);
+
+    if (!slug) {
+      return;
+    }
+
+    console.log(`Subscription for slug ${slug} was completed by the server`);
+    this.subscriptionStates.set(slug, "retrying");
+    this.scheduleResubscribe(slug, id);
+  }
+
+  private getSlugById(id: string): string | undefined {
+    // find slug by id which is value in map
+    return Array.from(this.subscribedSlugs.entries())
+      .find(([key, value]) => value === id)
+      ?.at(0);
+  }
+
+  /**
+   * Exponential backoff with full jitter, so many clients dropped at once
+   * don't all come back at the same moment.
+   */
+  private getBackoffDelay(attempt: number): number {
+    const maxDelay = Math.min(
+      this.options.reconnectMaxDelayMs,
+      this.options.reconnectBaseDelayMs * Math.pow(2, attempt)
+    );
+
+    return Math.round(Math.random() * maxDelay);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) {
+      return;
+    }
+
+    const delay = this.getBackoffDelay(this.reconnectAttempts);
+    this.reconnectAttempts++;
+    tensorReconnects.inc();
+
+    console.log(
+      `Reconnecting to Tensor in ${delay}ms (attempt ${this.reconnectAttempts})...`
+    );
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      // failures are retried by the close handler
+      this.connect().catch((err) => console.error(err.message));
+    }, delay);
+  }
+
+  private scheduleResubscribe(slug: string, id: string): void {
+    const attempt = this.resubscribeAttempts.get(slug) ?? 0;
+    this.resubscribeAttempts.set(slug, attempt + 1);
+
+    const delay = this.getBackoffDelay(attempt);
+
+    setTimeout(() => {
+      // skip if the slug was resubscribed in the meantime, e.g. on reconnect
+      if (this.subscribedSlugs.get(slug) === id) {
+        this.subscribeToSlug(slug, true);
+      }
+    }, delay);
+  }
+
   public subscribeToSlug(slug: string, force = false): void {
     // if already subscribed, return
     if (this.subscribedSlugs.has(slug) && !force) {
@@ -167,143 +766,243 @@ class TensorService extends EventEmitter {
 
     console.log(`Subscribing to slug ${slug} with id ${id}...`);
 
-    const data = {
-      id: id,
-      type: "subscribe",
-      payload: {
-        variables: {
-          slug: slug,
-        },
-        extensions: {},
-        operationName: "NewTransaction",
-        query: `subscription NewTransaction($slug: String!) {
-          newTransactionTV2(slug: $slug) {
-            ...ReducedLinkedTx
-            __typename
-          }
-        }
+    const data = this.client.createSubscribeMessage(id, NEW_TRANSACTION, {
+      slug,
+    });
 
-        fragment ReducedLinkedTx on LinkedTransactionTV2 {
-          tx {
-            ...ReducedParsedTx
-            __typename
-          }
-          mint {
-            ...ReducedMint
-            __typename
-          }
-          __typename
-        }
+    this.subscribedSlugs = this.subscribedSlugs.set(slug, id);
 
-        fragment ReducedParsedTx on ParsedTransaction {
-          source
-          txKey
-          txId
-          txType
-          grossAmount
-          grossAmountUnit
-          sellerId
-          buyerId
-          txAt
-          txMetadata {
-            auctionHouse
-            urlId
-            sellerRef
-            tokenAcc
-            __typename
-          }
-          poolOnchainId
-          __typename
-        }
+    // while disconnected the slug is kept and subscribed once acked
+    if (this.is_connected) {
+      this.subscriptionStates.set(slug, "active");
+      this.send(JSON.stringify(data));
+    } else {
+      this.subscriptionStates.set(slug, "pending");
+    }
+  }
 
-        fragment ReducedMint on TLinkedTxMintTV2 {
-          onchainId
-          name
-          imageUri
-          metadataUri
-          metadataFetchedAt
-          sellRoyaltyFeeBPS
-          tokenStandard
-          tokenEdition
-          attributes {
-            trait_type
-            value
-          }
-          lastSale {
-            price
-            priceUnit
-            txAt
-            __typename
-          }
-          accState
-          ...MintRarityFields
-          __typename
-        }
+  public unsubscribeFromSlug(slug: string): void {
+    const id = this.subscribedSlugs.get(slug);
 
-        fragment MintRarityFields on TLinkedTxMintTV2 {
-          rarityRankTT
-          rarityRankTTStat
-          rarityRankHR
-          rarityRankTeam
-          rarityRankStat
-          rarityRankTN
-          __typename
-        }`,
-      },
-    };
+    if (!id) {
+      return;
+    }
 
-    this.subscribedSlugs = this.subscribedSlugs.set(slug, id);
-    this.send(JSON.stringify(data));
+    console.log(`Unsubscribing from slug ${slug} with id ${id}...`);
+
+    // the server forgot the subscription already if the socket is down
+    if (this.is_connected) {
+      this.send(JSON.stringify({ id, type: "complete" }));
+    }
+
+    this.subscribedSlugs.delete(slug);
+    this.subscriptionStates.delete(slug);
+    this.resubscribeAttempts.delete(slug);
+    this.lastSeen.delete(slug);
   }
 
-  public async getCollectionStats(slug: string): Promise<{
-    buyNowPriceNetFees: string;
-    numMints: number;
-    [key: string]: any;
-  }> {
+  /**
+   * Subscribes to a slug that moved here from another connection. Whatever
+   * happened after its last seen transaction is backfilled.
+   */
+  public adoptSlug(slug: string, lastSeen: LastSeen | undefined): void {
+    if (lastSeen) {
+      this.lastSeen.set(slug, lastSeen);
+    }
+
+    this.subscribeToSlug(slug);
+
+    if (this.is_connected && lastSeen) {
+      this.backfillSlug(slug, lastSeen);
+    }
+  }
+
+  /**
+   * While disconnected, slugs that haven't seen a transaction yet count as
+   * seen up to the drop.
+   */
+  public getLastSeen(slug: string): LastSeen | undefined {
+    return (
+      this.lastSeen.get(slug) ??
+      (this.disconnectedAt != null
+        ? { txAt: this.disconnectedAt, txKeys: new Set() }
+        : undefined)
+    );
+  }
+
+  /**
+   * Closes the socket for good, nothing is reconnected or resubscribed.
+   */
+  public close(): void {
+    const ws = this.ws;
+
+    // the close handler ignores sockets that aren't current
+    this.ws = null;
+    this.is_connected = false;
+    this.hasConnected = false;
+    this.reconnectTimer && clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.timer && clearInterval(this.timer);
+    this.timer = null;
+    this.subscribedSlugs.clear();
+    this.subscriptionStates.clear();
+    this.resubscribeAttempts.clear();
+    this.lastSeen.clear();
+    this.disconnectedAt = null;
+    this.recording?.end();
+    this.recording = null;
+
+    ws?.terminate();
+  }
+
+  public getSubscriptions(): SubscriptionInfo[] {
+    return Array.from(this.subscribedSlugs.entries()).map(([slug, id]) => ({
+      slug,
+      id,
+      state: this.subscriptionStates.get(slug) ?? "pending",
+    }));
+  }
+
+  public isConnected(): boolean {
+    return this.is_connected;
+  }
+
+  /**
+   * When anything, including keep-alive pongs, last arrived on the socket.
+   */
+  public getLastMessageAt(): number | null {
+    return this.lastMessageAt;
+  }
+
+  /**
+   * Stats are cached for five minutes unless the caller asks for fresher
+   * ones with `maxAgeMs`. Throws GraphQLNotFoundError for unknown slugs.
+   */
+  public async getCollectionStats(
+    slug: string,
+    maxAgeMs = 5 * 60 * 1000
+  ): Promise<TensorCollectionStats> {
     const cacheKey = `collectionStats:${slug}`;
 
     if (this.cache.has(cacheKey)) {
       const cache = this.cache.get(cacheKey);
-      if (cache && cache.expires > Date.now()) {
+      if (cache && Date.now() - cache.fetchedAt < maxAgeMs) {
         return cache.data;
       }
     }
 
-    const payload = {
-      operationName: "Instrument",
-      variables: {
-        slug: slug,
-      },
-      query:
-        "query Instrument($slug: String!) {  instrumentTV2(slug: $slug) {    ...ReducedInstrument    __typename  }}fragment ReducedInstrument on InstrumentTV2 {  id  slug  slugDisplay  compressed  tensorWhitelisted  tensorVerified  tensorUnsupported  hidden  creator  name  symbol  imageUri  description  website  twitter  discord  tokenStandard  sellRoyaltyFeeBPS  statsV2 {    ...CollectionStatsV2    __typename  }  hswapWhitelisted  firstListDate  __typename}fragment CollectionStatsV2 on CollectionStatsV2 {  currency  buyNowPrice  buyNowPriceNetFees  sellNowPrice  sellNowPriceNetFees  numListed  numMints  floor1h  floor24h  floor7d  sales1h  sales24h  sales7d  salesAll  volume1h  volume24h  volume7d  volumeAll  pctListed  marketCap  __typename}",
-    };
+    const { instrumentTV2 } = await this.client.request(INSTRUMENT, { slug });
 
-    const headers = {
-      "X-TENSOR-API-KEY": this.apiKey,
-      "Content-Type": "application/json",
-    };
+    if (!instrumentTV2) {
+      throw new GraphQLNotFoundError(
+        `Collection ${slug} not found`,
+        INSTRUMENT.label
+      );
+    }
 
-    const response = await fetch(this.url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(payload),
+    this.cache.set(cacheKey, {
+      fetchedAt: Date.now(),
+      data: instrumentTV2.statsV2,
     });
 
-    if (!response.ok) {
-      throw new Error("Failed to fetch collection stats");
-    }
+    return instrumentTV2.statsV2;
+  }
 
-    const json = await response.json();
+  /**
+   * A mint with its attributes and rarity ranks, and the slug of its
+   * collection. Throws GraphQLNotFoundError for unknown mints.
+   */
+  public async getMint(
+    mint: string
+  ): Promise<TensorMint & { slug: string | null }> {
+    const data = await this.client.request(MINT, { mint });
 
-    const stats = json.data.instrumentTV2.statsV2;
+    if (!data.mint) {
+      throw new GraphQLNotFoundError(`Mint ${mint} not found`, MINT.label);
+    }
 
-    this.cache.set(cacheKey, {
-      expires: Date.now() + 5 * 60 * 1000,
-      data: stats,
+    return data.mint;
+  }
+
+  public async getRecentTransactions(
+    slug: string,
+    limit: number
+  ): Promise<TensorTransaction[]> {
+    const data = await this.client.request(RECENT_TRANSACTIONS, {
+      slug,
+      limit,
     });
 
-    return stats;
+    return data.recentTransactions.txs;
+  }
+
+  /**
+   * Replays transactions that happened while the socket was down, for every
+   * slug after its last seen transaction or the drop. Nothing is backfilled
+   * on the first connection, so a fresh start doesn't re-announce old sales.
+   */
+  private async backfill(): Promise<void> {
+    if (this.disconnectedAt == null) {
+      return;
+    }
+
+    const gaps = Array.from(this.subscribedSlugs.keys()).map(
+      (slug) => [slug, this.getLastSeen(slug)!] as const
+    );
+    this.disconnectedAt = null;
+
+    for (const [slug, lastSeen] of gaps) {
+      await this.backfillSlug(slug, lastSeen);
+    }
+  }
+
+  private async backfillSlug(slug: string, lastSeen: LastSeen): Promise<void> {
+    try {
+      const cutoff = Math.max(
+        lastSeen.txAt,
+        Date.now() - this.options.backfillMaxAgeMs
+      );
+
+      const transactions = await this.getRecentTransactions(
+        slug,
+        this.options.backfillLimit
+      );
+
+      const missed = transactions
+        .filter((transaction) => {
+          const txAt = parseTxAt(transaction.tx.txAt);
+          return (
+            txAt > cutoff ||
+            (txAt === lastSeen.txAt &&
+              !lastSeen.txKeys.has(transaction.tx.txKey))
+          );
+        })
+        .sort((a, b) => parseTxAt(a.tx.txAt) - parseTxAt(b.tx.txAt));
+
+      if (missed.length > 0) {
+        console.log(`Backfilling ${missed.length} transactions for ${slug}`);
+      }
+
+      for (const transaction of missed) {
+        this.handleTransaction(transaction, slug);
+      }
+    } catch (err) {
+      console.error(`Failed to backfill ${slug}`, err);
+    }
+  }
+
+  private trackLastSeen(transaction: TensorTransaction, slug: string) {
+    const txAt = parseTxAt(transaction.tx.txAt);
+    const lastSeen = this.lastSeen.get(slug);
+
+    if (!lastSeen || txAt > lastSeen.txAt) {
+      this.lastSeen.set(slug, {
+        txAt,
+        txKeys: new Set([transaction.tx.txKey]),
+      });
+    } else if (txAt === lastSeen.txAt) {
+      lastSeen.txKeys.add(transaction.tx.txKey);
+    }
   }
 
   private checkForListener(event: string): boolean {
@@ -311,6 +1010,8 @@ class TensorService extends EventEmitter {
   }
 
   private handleTransaction(transaction: TensorTransaction, slug: string) {
+    this.trackLastSeen(transaction, slug);
+
     this.checkForListener("transaction") &&
       this.emit("transaction", transaction, slug);
     const source = transaction.tx.source;
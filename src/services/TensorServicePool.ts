@@ -0,0 +1,498 @@
+import { EventEmitter } from "events";
+import { setTimeout as sleep } from "timers/promises";
+import { GraphQLError, GraphQLRateLimitError } from "../lib/graphql";
+import { tensorConnections, tensorSlugsMoved } from "../metrics";
+import TensorService, {
+  LastSeen,
+  SubscriptionInfo,
+  TensorApi,
+  TensorCollectionStats,
+  TensorMint,
+  TensorServiceOptions,
+  TensorTransaction,
+} from "./TensorService";
+
+// how long slugs wait after a connection for them couldn't be opened
+const PENDING_RETRY_MS = 30_000;
+// longer rate limits fail the query rather than hold it up
+const MAX_RATE_LIMIT_WAIT_MS = 60_000;
+
+export interface TensorServicePoolOptions extends TensorServiceOptions {
+  // 0 puts every slug on one connection
+  maxSlugsPerConnection?: number;
+  // slugs of a connection that stays down this long move to the others
+  rebalanceAfterMs?: number;
+}
+
+interface Connection {
+  // in logs and subscription info, never reused
+  index: number;
+  keyIndex: number;
+  service: TensorService;
+  slugs: Set<string>;
+  rebalanceTimer: NodeJS.Timeout | null;
+}
+
+declare interface TensorServicePool {
+  on(
+    event: "transaction",
+    listener: (transaction: TensorTransaction, slug: string) => void
+  ): this;
+  on(event: "connected", listener: (connection: number) => void): this;
+  on(
+    event: "disconnected",
+    listener: (connection: number, code: number, reason: string) => void
+  ): this;
+  on(
+    event: "subscriptionError",
+    listener: (slug: string, errors: GraphQLError[]) => void
+  ): this;
+  emit(
+    event: "transaction",
+    transaction: TensorTransaction,
+    slug: string
+  ): boolean;
+  emit(event: "connected", connection: number): boolean;
+  emit(
+    event: "disconnected",
+    connection: number,
+    code: number,
+    reason: string
+  ): boolean;
+  emit(
+    event: "subscriptionError",
+    slug: string,
+    errors: GraphQLError[]
+  ): boolean;
+}
+
+/**
+ * Spreads slugs over several websocket connections, at most
+ * `maxSlugsPerConnection` each, so one bad connection doesn't take every
+ * collection down. New connections take the API keys in turn. When a
+ * connection stays down while others are up, its slugs move to the others or
+ * to a new connection and the gap is backfilled there. Transactions of every
+ * connection come out of the pool's own "transaction" event.
+ *
+ * A slug that can't get a connection is logged and retried later instead of
+ * failing the subscription. Only one connection at a time records frames.
+ *
+ * Queries go through one client per API key and move on to the next key when
+ * one is rate limited. When every key is, the query waits once for the
+ * soonest reset the server announced.
+ */
+class TensorServicePool extends EventEmitter implements TensorApi {
+  private url: string;
+  private apiKeys: string[];
+  private options: TensorServicePoolOptions;
+  private connections: Connection[] = [];
+  private slugs = new Map<string, Connection>();
+  // slugs that couldn't get a connection yet, retried on a timer
+  private pending = new Set<string>();
+  private pendingTimer: NodeJS.Timeout | null = null;
+  // the one connection writing to recordPath, they would clobber each other
+  private recorder: Connection | null = null;
+  // query only clients, one per API key
+  private clients: TensorService[];
+  private nextIndex = 0;
+  private nextKey = 0;
+  private nextClient = 0;
+
+  constructor(
+    url: string,
+    apiKeys: string[],
+    options: TensorServicePoolOptions = {}
+  ) {
+    super();
+
+    if (apiKeys.length === 0) {
+      throw new Error("TensorServicePool needs at least one API key");
+    }
+
+    this.url = url;
+    this.apiKeys = apiKeys;
+    this.options = options;
+    this.clients = apiKeys.map(
+      (apiKey) => new TensorService(url, apiKey, { ...options, recordPath: "" })
+    );
+  }
+
+  /**
+   * Opens the first connection, rejects like TensorService.connect when it
+   * can't be established.
+   */
+  public async connect(): Promise<void> {
+    if (this.connections.length === 0) {
+      await this.addConnection();
+    }
+  }
+
+  public async subscribeToSlug(slug: string): Promise<void> {
+    if (this.slugs.has(slug)) {
+      return;
+    }
+
+    let connection = this.findConnection();
+
+    if (!connection) {
+      try {
+        connection = await this.addConnection();
+      } catch (err) {
+        console.error(
+          `Failed to open a Tensor connection for ${slug}, retrying later`,
+          err
+        );
+        this.pending.add(slug);
+        this.schedulePendingRetry();
+        return;
+      }
+    }
+
+    this.pending.delete(slug);
+
+    // a concurrent call may have placed it while connecting
+    if (!this.slugs.has(slug)) {
+      this.assign(slug, connection, undefined);
+    }
+  }
+
+  public unsubscribeFromSlug(slug: string): void {
+    this.pending.delete(slug);
+
+    const connection = this.slugs.get(slug);
+
+    if (!connection) {
+      return;
+    }
+
+    connection.service.unsubscribeFromSlug(slug);
+    connection.slugs.delete(slug);
+    this.slugs.delete(slug);
+
+    if (connection.slugs.size === 0 && this.connections.length > 1) {
+      this.removeConnection(connection);
+    }
+  }
+
+  public getSubscriptions(): SubscriptionInfo[] {
+    return this.connections.flatMap(({ index, service }) =>
+      service
+        .getSubscriptions()
+        .map((subscription) => ({ ...subscription, connection: index }))
+    );
+  }
+
+  public isConnected(): boolean {
+    return (
+      this.connections.length > 0 &&
+      this.connections.every(({ service }) => service.isConnected())
+    );
+  }
+
+  /**
+   * The oldest of the connections' last messages, so that a single silent
+   * connection shows.
+   */
+  public getLastMessageAt(): number | null {
+    const times = this.connections.map(({ service }) =>
+      service.getLastMessageAt()
+    );
+
+    if (times.length === 0 || times.some((time) => time == null)) {
+      return null;
+    }
+
+    return Math.min(...(times as number[]));
+  }
+
+  public getCollectionStats(
+    slug: string,
+    maxAgeMs?: number
+  ): Promise<TensorCollectionStats> {
+    // always the same client for a slug, so its stats cache is used
+    const start = Array.from(slug).reduce(
+      (sum, char) => sum + char.charCodeAt(0),
+      0
+    );
+
+    return this.request(start, (client) =>
+      client.getCollectionStats(slug, maxAgeMs)
+    );
+  }
+
+  public getMint(mint: string): Promise<TensorMint & { slug: string | null }> {
+    return this.request(this.nextClient++, (client) => client.getMint(mint));
+  }
+
+  public getRecentTransactions(
+    slug: string,
+    limit: number
+  ): Promise<TensorTransaction[]> {
+    return this.request(this.nextClient++, (client) =>
+      client.getRecentTransactions(slug, limit)
+    );
+  }
+
+  private async request<T>(
+    start: number,
+    send: (client: TensorService) => Promise<T>
+  ): Promise<T> {
+    // the soonest reset of the keys tried in this round
+    let waitMs: number | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+      const client = this.clients[(start + attempt) % this.clients.length];
+
+      try {
+        return await send(client);
+      } catch (err) {
+        if (!(err instanceof GraphQLRateLimitError)) {
+          throw err;
+        }
+
+        if (err.retryAfterMs != null) {
+          waitMs = Math.min(waitMs ?? Infinity, err.retryAfterMs);
+        }
+
+        // another key may have quota left
+        if ((attempt + 1) % this.clients.length !== 0) {
+          continue;
+        }
+
+        if (
+          attempt + 1 > this.clients.length ||
+          waitMs == null ||
+          waitMs > MAX_RATE_LIMIT_WAIT_MS
+        ) {
+          throw err;
+        }
+
+        await sleep(waitMs);
+        waitMs = null;
+      }
+    }
+  }
+
+  /**
+   * The connection with the fewest slugs that has room for another,
+   * preferring connected ones.
+   */
+  private findConnection(
+    exclude?: Connection,
+    connectedOnly = false
+  ): Connection | undefined {
+    const max = this.options.maxSlugsPerConnection || Infinity;
+
+    return this.connections
+      .filter(
+        (connection) =>
+          connection !== exclude &&
+          connection.slugs.size < max &&
+          (!connectedOnly || connection.service.isConnected())
+      )
+      .sort(
+        (a, b) =>
+          Number(b.service.isConnected()) - Number(a.service.isConnected()) ||
+          a.slugs.size - b.slugs.size
+      )[0];
+  }
+
+  private assign(
+    slug: string,
+    connection: Connection,
+    lastSeen: LastSeen | undefined
+  ): void {
+    this.slugs.set(slug, connection);
+    connection.slugs.add(slug);
+    connection.service.adoptSlug(slug, lastSeen);
+  }
+
+  private async addConnection(avoidKeyIndex?: number): Promise<Connection> {
+    const index = this.nextIndex++;
+    let keyIndex = this.nextKey++ % this.apiKeys.length;
+
+    if (keyIndex === avoidKeyIndex && this.apiKeys.length > 1) {
+      keyIndex = this.nextKey++ % this.apiKeys.length;
+    }
+
+    const service = new TensorService(this.url, this.apiKeys[keyIndex], {
+      ...this.options,
+      recordPath: this.recorder ? "" : this.options.recordPath,
+    });
+
+    const connection: Connection = {
+      index,
+      keyIndex,
+      service,
+      slugs: new Set(),
+      rebalanceTimer: null,
+    };
+
+    service.on("transaction", (transaction, slug) => {
+      // a slug that moved away may still finish a backfill here
+      if (this.slugs.get(slug) === connection) {
+        this.emit("transaction", transaction, slug);
+      }
+    });
+
+    service.on("subscriptionError", (slug, errors) =>
+      this.emit("subscriptionError", slug, errors)
+    );
+
+    service.on("connected", () => {
+      connection.rebalanceTimer && clearTimeout(connection.rebalanceTimer);
+      connection.rebalanceTimer = null;
+      this.updateMetrics();
+      this.emit("connected", index);
+    });
+
+    service.on("disconnected", (code, reason) => {
+      this.scheduleRebalance(connection);
+      this.updateMetrics();
+      this.emit("disconnected", index, code, reason);
+    });
+
+    this.connections.push(connection);
+
+    if (!this.recorder && this.options.recordPath) {
+      this.recorder = connection;
+    }
+
+    console.log(
+      `Opening Tensor connection ${index} with API key ${keyIndex + 1} of ${
+        this.apiKeys.length
+      }`
+    );
+
+    try {
+      await service.connect();
+    } catch (err) {
+      this.removeConnection(connection);
+      throw err;
+    }
+
+    return connection;
+  }
+
+  private removeConnection(connection: Connection): void {
+    console.log(`Closing Tensor connection ${connection.index}`);
+
+    connection.rebalanceTimer && clearTimeout(connection.rebalanceTimer);
+    connection.rebalanceTimer = null;
+    connection.service.close();
+    this.connections = this.connections.filter((other) => other !== connection);
+
+    // the next connection opened takes over the recording
+    if (this.recorder === connection) {
+      this.recorder = null;
+    }
+    this.updateMetrics();
+  }
+
+  private scheduleRebalance(connection: Connection): void {
+    const delay = this.options.rebalanceAfterMs ?? 60_000;
+
+    if (connection.rebalanceTimer || delay <= 0) {
+      return;
+    }
+
+    connection.rebalanceTimer = setTimeout(() => {
+      connection.rebalanceTimer = null;
+      this.rebalance(connection).catch((err) =>
+        console.error(`Failed to rebalance connection ${connection.index}`, err)
+      );
+    }, delay);
+  }
+
+  private schedulePendingRetry(): void {
+    if (this.pendingTimer) {
+      return;
+    }
+
+    this.pendingTimer = setTimeout(() => {
+      this.pendingTimer = null;
+      this.retryPending().catch((err) =>
+        console.error("Failed to retry pending Tensor slugs", err)
+      );
+    }, PENDING_RETRY_MS);
+  }
+
+  private async retryPending(): Promise<void> {
+    for (const slug of Array.from(this.pending)) {
+      await this.subscribeToSlug(slug);
+
+      // still no connection, the next retry is scheduled
+      if (this.pending.has(slug)) {
+        return;
+      }
+    }
+  }
+
+  private async rebalance(from: Connection): Promise<void> {
+    if (from.service.isConnected() || !this.connections.includes(from)) {
+      return;
+    }
+
+    // with every connection down it is the network, moving wouldn't help
+    if (
+      !this.connections.some(
+        (connection) => connection !== from && connection.service.isConnected()
+      )
+    ) {
+      console.log(
+        `Every Tensor connection is down, keeping the slugs of connection ${from.index}`
+      );
+      this.scheduleRebalance(from);
+      return;
+    }
+
+    console.log(
+      `Tensor connection ${from.index} stayed down, moving its ${from.slugs.size} slugs`
+    );
+
+    for (const slug of Array.from(from.slugs)) {
+      let target = this.findConnection(from, true);
+
+      if (!target) {
+        try {
+          target = await this.addConnection(from.keyIndex);
+        } catch (err) {
+          console.error(`Failed to open a Tensor connection for ${slug}`, err);
+          this.scheduleRebalance(from);
+          return;
+        }
+      }
+
+      // it came back or the slug was removed while connecting
+      if (from.service.isConnected() || !from.slugs.has(slug)) {
+        continue;
+      }
+
+      // read before unsubscribing, which forgets it
+      const lastSeen = from.service.getLastSeen(slug);
+      from.service.unsubscribeFromSlug(slug);
+      from.slugs.delete(slug);
+      this.assign(slug, target, lastSeen);
+      tensorSlugsMoved.inc();
+    }
+
+    // the key may be what's wrong, replacements use another one
+    if (from.slugs.size === 0) {
+      this.removeConnection(from);
+    }
+  }
+
+  private updateMetrics(): void {
+    const connected = this.connections.filter(({ service }) =>
+      service.isConnected()
+    ).length;
+
+    tensorConnections.set({ state: "connected" }, connected);
+    tensorConnections.set(
+      { state: "disconnected" },
+      this.connections.length - connected
+    );
+  }
+}
+
+export default TensorServicePool;
@@ -0,0 +1,117 @@
+import { parseConfig } from "./config";
+import { SOL_MINT } from "./lib/prices";
+import {
+  NotificationEvent,
+  createNotificationEvent,
+  getNotificationKind,
+} from "./notifications";
+import PriceOracle from "./services/PriceOracle";
+import { TensorTransaction } from "./services/TensorService";
+
+/**
+ * A SOL sale of a ranked mint for tests, with any fields replaced.
+ */
+export function createTransaction(
+  overrides: {
+    tx?: Partial<TensorTransaction["tx"]>;
+    mint?: Partial<TensorTransaction["mint"]>;
+  } = {}
+): TensorTransaction {
+  return {
+    tx: {
+      source: "TENSORSWAP",
+      txKey: "tx-key",
+      txId: "tx-id",
+      txType: "SALE_BUY_NOW",
+      grossAmount: "2000000000",
+      grossAmountUnit: null,
+      sellerId: "seller",
+      buyerId: "buyer",
+      txAt: 1_700_000_000_000,
+      txMetadata: null,
+      poolOnchainId: null,
+      ...overrides.tx,
+    },
+    mint: {
+      onchainId: "mint",
+      name: "Tensorian #1",
+      imageUri: "https://example.com/1.png",
+      metadataUri: null,
+      metadataFetchedAt: null,
+      sellRoyaltyFeeBPS: 500,
+      tokenStandard: null,
+      tokenEdition: null,
+      attributes: [{ trait_type: "Faction", value: "Tensorians" }],
+      lastSale: null,
+      accState: null,
+      rarityRankTT: 50,
+      rarityRankTTStat: null,
+      rarityRankHR: null,
+      rarityRankTeam: null,
+      rarityRankStat: null,
+      rarityRankTN: null,
+      ...overrides.mint,
+    },
+  };
+}
+
+/**
+ * Builds the event for a transaction like the bot does, from a collection
+ * config as written in the config file. Prices come from a stub at
+ * `usdPerSol`, null for no prices at all.
+ */
+export async function createEvent(
+  transaction: TensorTransaction = createTransaction(),
+  options: {
+    collection?: { [key: string]: unknown };
+    wallets?: { [address: string]: unknown };
+    usdPerSol?: number | null;
+    floorLamports?: string | null;
+    numMints?: number | null;
+  } = {}
+): Promise<NotificationEvent> {
+  const config = parseConfig(
+    {
+      collections: [
+        {
+          slug: "slug",
+          webhooks: [{ url: "https://example.com/hook", secret: "secret" }],
+          ...options.collection,
+        },
+      ],
+      wallets: options.wallets,
+    },
+    "test"
+  );
+  const [collection] = config.collections;
+  const usdPerSol = options.usdPerSol === undefined ? 150 : options.usdPerSol;
+
+  const prices = new PriceOracle(
+    usdPerSol == null
+      ? []
+      : [
+          {
+            name: "stub",
+            getPrices: async () => ({ [SOL_MINT]: { usd: usdPerSol } }),
+          },
+        ]
+  );
+
+  return createNotificationEvent(
+    getNotificationKind(transaction.tx.txType)!,
+    transaction,
+    collection.slug,
+    {
+      stats: {
+        buyNowPriceNetFees: options.floorLamports ?? null,
+        numMints: options.numMints === undefined ? 10_000 : options.numMints,
+      },
+      display: collection.display,
+      templates: collection.templates,
+      rarity: collection.rarity,
+      wallets: config.wallets,
+      tokens: config.tokens,
+      prices,
+    }
+  );
+}
@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { getTweetLength } from "./twitter";
+
+test("latin text counts one per character", () => {
+  assert.equal(getTweetLength("Tensorian #1 sold"), 17);
+  assert.equal(getTweetLength("café – “quoted”"), 15);
+});
+
+test("emojis and CJK count double", () => {
+  assert.equal(getTweetLength("😲"), 2);
+  assert.equal(getTweetLength("◎2"), 3);
+  assert.equal(getTweetLength("売れた"), 6);
+});
+
+test("urls count as a t.co link whatever their length", () => {
+  // the arrow counts double
+  assert.equal(getTweetLength("→ https://www.tensor.trade/item/abc"), 26);
+  assert.equal(
+    getTweetLength(`https://example.com/${"x".repeat(100)} and http://a.b`),
+    51
+  );
+});
@@ -0,0 +1,195 @@
+import { renderTemplate } from "./lib/templates";
+import {
+  Digest,
+  FloorAlert,
+  NotificationEvent,
+  SweepEvent,
+  WalletAlert,
+  formatDigestStats,
+  formatDigestTitle,
+  formatFloorAlert,
+  formatFloorDifference,
+  formatPrice,
+  formatRarity,
+  formatWalletAlert,
+  formatWalletName,
+  getTemplateValue,
+} from "./notifications";
+
+export const TWEET_MAX_LENGTH = 280;
+// twitter wraps every link in t.co, so a url always costs this much
+const TWEET_URL_LENGTH = 23;
+
+const MAX_SWEEP_NAMES_LISTED = 5;
+const MAX_DIGEST_SALES_LISTED = 3;
+
+function getHeadline(event: NotificationEvent): string {
+  const nftName = event.transaction.mint.name;
+
+  switch (event.kind) {
+    case "sale":
+      return `😲 ${nftName} SOLD for ${formatPrice(event)}`;
+    case "listing":
+      return `📋 ${nftName} listed for ${formatPrice(event)}`;
+    case "priceChange":
+      return `✏️ ${nftName} price changed to ${formatPrice(event)}`;
+    case "bid":
+      return `🤝 New ${formatPrice(event)} bid on ${nftName}`;
+    case "delisting":
+      return `❌ ${nftName} delisted`;
+  }
+}
+
+export function createTweetText(event: NotificationEvent): string {
+  const { transaction, display } = event;
+  const marketplaceUrl = `https://www.tensor.trade/item/${transaction.mint.onchainId}`;
+  const hasPrice = event.kind !== "delisting";
+
+  const fiatMessage =
+    hasPrice && display.showUsd && event.formattedFiatPrice
+      ? `💵 ${event.formattedFiatPrice}\n`
+      : "";
+
+  let floorMessage = "";
+
+  if (display.showFloor && hasPrice) {
+    const floorDifference =
+      event.kind === "sale" ? "" : formatFloorDifference(event);
+    floorMessage = floorDifference
+      ? `📈 ${floorDifference} (◎${event.floorPrice})\n`
+      : `📈 ◎${event.floorPrice} floor\n`;
+  }
+
+  const traitMessage = event.traitValue ? `👥 ${event.traitValue}\n` : "";
+
+  // addresses are noise in a tweet, only known wallets are worth a line
+  const { buyerId, sellerId } = transaction.tx;
+  const walletMessage =
+    event.kind === "sale" && (event.buyerLabel || event.sellerLabel)
+      ? `🤝 ${formatWalletName(
+          sellerId,
+          event.sellerLabel
+        )} → ${formatWalletName(buyerId, event.buyerLabel)}\n`
+      : "";
+
+  const txMessage =
+    event.kind === "sale"
+      ? `\n\n📝 https://xray.helius.xyz/tx/${transaction.tx.txId}`
+      : "";
+
+  return `${getHeadline(event)}\n${fiatMessage}${floorMessage}${formatRarity(
+    event
+  )}\n${traitMessage}${walletMessage}\n→ ${marketplaceUrl}${txMessage}`;
+}
+
+export function createSweepTweetText(sweep: SweepEvent): string {
+  const { display } = sweep.events[0];
+  const names = sweep.events
+    .slice(0, MAX_SWEEP_NAMES_LISTED)
+    .map((event) => `• ${event.transaction.mint.name}`);
+
+  const hiddenCount = sweep.events.length - names.length;
+
+  if (hiddenCount > 0) {
+    names.push(`• +${hiddenCount} more`);
+  }
+
+  const fiatMessage =
+    display.showUsd && sweep.formattedTotalFiat
+      ? `💵 ${sweep.formattedTotalFiat}\n`
+      : "";
+
+  // a link per item would blow the character limit, the portfolio lists them
+  return `🧹 ${formatWalletName(sweep.buyerId, sweep.buyerLabel)} swept ${
+    sweep.events.length
+  } items for ◎${sweep.totalSol}\n${fiatMessage}\n${names.join(
+    "\n"
+  )}\n\n→ https://www.tensor.trade/portfolio?wallet=${sweep.buyerId}`;
+}
+
+export function createWalletAlertText(alert: WalletAlert): string {
+  const { mint, tx } = alert.event.transaction;
+
+  return `👀 ${formatWalletAlert(alert)}\n\n→ https://www.tensor.trade/item/${
+    mint.onchainId
+  }\n📝 https://xray.helius.xyz/tx/${tx.txId}`;
+}
+
+export function createFloorAlertText(
+  alert: FloorAlert,
+  collectionName: string
+): string {
+  return `${alert.direction === "up" ? "📈" : "📉"} ${formatFloorAlert(
+    alert,
+    collectionName
+  )}\n\n→ https://www.tensor.trade/trade/${alert.slug}`;
+}
+
+export function createDigestText(
+  digest: Digest,
+  collectionName: string
+): string {
+  const lines = [
+    `📊 ${formatDigestTitle(digest, collectionName)}`,
+    "",
+    ...formatDigestStats(digest),
+  ];
+
+  const topSales = digest.topSales.slice(0, MAX_DIGEST_SALES_LISTED);
+
+  if (topSales.length > 0) {
+    lines.push(
+      "",
+      "Top sales:",
+      ...topSales.map((sale) => `• ${sale.name} ◎${sale.priceSol}`)
+    );
+  }
+
+  if (digest.rarest) {
+    lines.push(
+      "",
+      `💎 Rarest: ${digest.rarest.name} (${digest.rarest.rarityTier}, rank ${digest.rarest.rank})`
+    );
+  }
+
+  lines.push("", `→ https://www.tensor.trade/trade/${digest.slug}`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Renders the event with the given template, or the built-in layout for its
+ * kind when there is none.
+ */
+export function createEventText(
+  event: NotificationEvent,
+  template: string | undefined
+): string {
+  return template
+    ? renderTemplate(template, (name) => getTemplateValue(event, name))
+    : createTweetText(event);
+}
+
+/**
+ * Approximates twitter-text's weighted length: urls count as a t.co link and
+ * characters outside the Latin and punctuation ranges, e.g. emojis and CJK,
+ * count double.
+ */
+export function getTweetLength(text: string): number {
+  const withoutUrls = text.replace(/https?:\/\/\S+/g, "");
+  const urlCount = (text.match(/https?:\/\/\S+/g) ?? []).length;
+
+  let length = urlCount * TWEET_URL_LENGTH;
+
+  for (const char of withoutUrls) {
+    const codePoint = char.codePointAt(0)!;
+    const isLight =
+      codePoint <= 0x10ff ||
+      (codePoint >= 0x2000 && codePoint <= 0x200d) ||
+      (codePoint >= 0x2010 && codePoint <= 0x201f) ||
+      (codePoint >= 0x2032 && codePoint <= 0x2037);
+    length += isLight ? 1 : 2;
+  }
+
+  return length;
+}